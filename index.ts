@@ -1,46 +1,36 @@
-import { PageCaptureRunner } from "./src/pageCaptureRunner"
-import { loadUrlsFromFile } from "./src/loadUrlsFromFile"
-import { config } from "./src/config"
-import { FileLogger, RunFolderLoggingObserver } from "./src/fileLogger"
+import { CommandLineInterface } from "./src/commandLineInterface"
+import { FileLogger } from "./src/fileLogger"
+import { SecretRedactor } from "./src/secretRedactor"
 
 const originalConsoleLog = console.log.bind(console)
 const originalConsoleWarn = console.warn.bind(console)
 const originalConsoleError = console.error.bind(console)
 const fileLogger = FileLogger.getInstance()
-const runFolderObserver = new RunFolderLoggingObserver(fileLogger)
+const secretRedactor = SecretRedactor.getInstance()
 
 console.log = (...args: unknown[]) => {
-  originalConsoleLog(...args)
-  fileLogger.record("log", args)
+  const redacted = secretRedactor.redactArgs(args)
+  originalConsoleLog(...redacted)
+  fileLogger.record("log", redacted)
 }
 
 console.warn = (...args: unknown[]) => {
-  originalConsoleWarn(...args)
-  fileLogger.record("warn", args)
+  const redacted = secretRedactor.redactArgs(args)
+  originalConsoleWarn(...redacted)
+  fileLogger.record("warn", redacted)
 }
 
 console.error = (...args: unknown[]) => {
-  originalConsoleError(...args)
-  fileLogger.record("error", args)
+  const redacted = secretRedactor.redactArgs(args)
+  originalConsoleError(...redacted)
+  fileLogger.record("error", redacted)
 }
 
-async function main() {
-  let urls: string[]
-
-  try {
-    urls = await loadUrlsFromFile(config.LINKS_FILE)
-  } catch (error) {
-    console.error(error instanceof Error ? error.message : "Failed to load links from links.txt.")
-    process.exit(1)
-    return
+new CommandLineInterface().run(Bun.argv.slice(2)).catch((error) => {
+  if (error instanceof Error) {
+    console.error(error.message)
+  } else {
+    console.error("Unexpected error:", error)
   }
-
-  const runner = new PageCaptureRunner(urls)
-  runner.registerRunFolderObserver(runFolderObserver)
-  await runner.run()
-}
-
-main().catch((error) => {
-  console.error("Unexpected error:", error)
   process.exit(1)
 })
@@ -0,0 +1,138 @@
+import type axe from "axe-core"
+import type { Page } from "playwright"
+
+/** axe impact levels from least to most severe. */
+export const ACCESSIBILITY_IMPACTS = ["minor", "moderate", "serious", "critical"] as const
+
+export type AccessibilityImpact = (typeof ACCESSIBILITY_IMPACTS)[number]
+
+export interface AccessibilityViolationNode {
+  selector: string
+  html: string
+  impact: AccessibilityImpact | null
+  failureSummary: string | null
+}
+
+export interface AccessibilityViolation {
+  ruleId: string
+  impact: AccessibilityImpact | null
+  description: string
+  helpUrl: string
+  nodes: AccessibilityViolationNode[]
+}
+
+/** Violated rules per impact; `nodes` counts the affected elements over all rules. */
+export interface AccessibilitySummary {
+  violations: number
+  nodes: number
+  critical: number
+  serious: number
+  moderate: number
+  minor: number
+}
+
+export interface AccessibilityAudit {
+  axeVersion: string
+  summary: AccessibilitySummary
+  violations: AccessibilityViolation[]
+}
+
+export interface AccessibilityAuditorOptions {
+  /** axe rule tags such as `wcag2aa`; empty runs axe's default rule set. */
+  ruleTags: ReadonlyArray<string>
+}
+
+type AxeLike = Pick<typeof axe, "run" | "version">
+
+/**
+ * Records the accessibility tree of a page and audits it with the axe-core copy installed next to
+ * catchapage, so audits work without network access and on pages whose CSP blocks third parties.
+ */
+export class AccessibilityAuditor {
+  private static axeSource: Promise<string> | null = null
+
+  constructor(private readonly options: AccessibilityAuditorOptions) {}
+
+  /** Playwright's ARIA snapshot of the whole document, as YAML. */
+  async snapshot(page: Page): Promise<string> {
+    return page.locator("body").ariaSnapshot()
+  }
+
+  async audit(page: Page): Promise<AccessibilityAudit> {
+    // Evaluated instead of added as a <script> tag, so the HTML snapshot stays free of axe.
+    await page.evaluate(await AccessibilityAuditor.loadAxeSource())
+
+    const { axeVersion, violations } = await page.evaluate(
+      async (ruleTags) => {
+        const scope = globalThis as unknown as {
+          axe: AxeLike
+          document: Parameters<AxeLike["run"]>[0]
+        }
+        const results = await scope.axe.run(scope.document, {
+          runOnly: ruleTags.length > 0 ? { type: "tag", values: ruleTags } : undefined,
+          resultTypes: ["violations"],
+        })
+
+        return {
+          axeVersion: scope.axe.version,
+          violations: results.violations.map((violation) => ({
+            ruleId: violation.id,
+            impact: violation.impact ?? null,
+            description: violation.help,
+            helpUrl: violation.helpUrl,
+            nodes: violation.nodes.map((node) => ({
+              selector: node.target
+                .map((part) => (Array.isArray(part) ? part.join(" ") : String(part)))
+                .join(" >>> "),
+              html: node.html,
+              impact: node.impact ?? null,
+              failureSummary: node.failureSummary ?? null,
+            })),
+          })),
+        }
+      },
+      [...this.options.ruleTags],
+    )
+
+    return { axeVersion, summary: AccessibilityAuditor.summarize(violations), violations }
+  }
+
+  private static summarize(
+    violations: ReadonlyArray<AccessibilityViolation>,
+  ): AccessibilitySummary {
+    const summary: AccessibilitySummary = {
+      violations: violations.length,
+      nodes: 0,
+      critical: 0,
+      serious: 0,
+      moderate: 0,
+      minor: 0,
+    }
+
+    for (const violation of violations) {
+      summary.nodes += violation.nodes.length
+
+      if (violation.impact) {
+        summary[violation.impact] += 1
+      }
+    }
+
+    return summary
+  }
+
+  private static loadAxeSource(): Promise<string> {
+    AccessibilityAuditor.axeSource ??= Bun.file(
+      Bun.resolveSync("axe-core/axe.min.js", import.meta.dir),
+    ).text()
+    return AccessibilityAuditor.axeSource
+  }
+}
+
+/** True when any violated rule is at least as severe as `threshold`. */
+export function exceedsImpact(
+  summary: AccessibilitySummary,
+  threshold: AccessibilityImpact,
+): boolean {
+  const minimum = ACCESSIBILITY_IMPACTS.indexOf(threshold)
+  return ACCESSIBILITY_IMPACTS.slice(minimum).some((impact) => summary[impact] > 0)
+}
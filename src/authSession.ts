@@ -0,0 +1,177 @@
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from "playwright"
+import { type AuthSettings, type HostAuth, loadAuthSettings } from "./authSettings"
+import { SecretRedactor } from "./secretRedactor"
+
+type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>
+
+/** What a login script's default export receives. */
+export interface LoginScriptContext {
+  page: Page
+  context: BrowserContext
+  /** `login.url` of the auth file, already opened in `page` when set. */
+  url?: string
+  credentials: Readonly<Record<string, string>>
+}
+
+type LoginScript = (context: LoginScriptContext) => Promise<void> | void
+
+/**
+ * Authentication shared by every variant context of a run: a storage state (from
+ * `AUTH_STORAGE_STATE_FILE` or produced by the login script), cookies and headers per host, and
+ * HTTP basic auth for the captured page's host.
+ */
+export class AuthSession {
+  private constructor(
+    private readonly settings: AuthSettings,
+    private storageState: StorageState | undefined,
+  ) {}
+
+  static async load(authFile: string, storageStateFile: string): Promise<AuthSession> {
+    const settings = await loadAuthSettings(authFile)
+
+    if (storageStateFile.length === 0) {
+      return new AuthSession(settings, undefined)
+    }
+
+    const file = Bun.file(storageStateFile)
+
+    if (!(await file.exists())) {
+      throw new Error(`Storage state file not found: ${storageStateFile}`)
+    }
+
+    let state: StorageState
+
+    try {
+      state = (await file.json()) as StorageState
+    } catch (error) {
+      throw new Error(
+        `Storage state file is not valid JSON: ${storageStateFile} (${error instanceof Error ? error.message : String(error)})`,
+      )
+    }
+
+    AuthSession.registerSecrets(state)
+    return new AuthSession(settings, state)
+  }
+
+  get isEmpty(): boolean {
+    return (
+      this.settings.hosts.length === 0 &&
+      this.settings.login === undefined &&
+      this.storageState === undefined
+    )
+  }
+
+  /**
+   * Runs the login script once in its own context and keeps the resulting storage state in memory
+   * for every variant; it is never written to the run folder.
+   */
+  async login(browser: Browser): Promise<void> {
+    const login = this.settings.login
+
+    if (!login) {
+      return
+    }
+
+    console.log(`[Auth] Running login script ${login.script}...`)
+    const loginStart = Date.now()
+    const module = (await import(Bun.pathToFileURL(login.script).href)) as { default?: unknown }
+
+    if (typeof module.default !== "function") {
+      throw new Error(`Login script ${login.script} must export a default function.`)
+    }
+
+    const script = module.default as LoginScript
+    const context = await browser.newContext({ storageState: this.storageState })
+
+    try {
+      await this.prepareContext(context)
+      const page = await context.newPage()
+
+      if (login.url) {
+        await page.goto(login.url)
+      }
+
+      await script({ page, context, url: login.url, credentials: login.credentials })
+      const state = await context.storageState()
+      AuthSession.registerSecrets(state)
+      this.storageState = state
+      console.log(
+        `[Auth] Login finished in ${Date.now() - loginStart}ms; ${state.cookies.length} cookie(s) will be reused by every variant.`,
+      )
+    } catch (error) {
+      throw new Error(
+        `Login script ${login.script} failed: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    } finally {
+      await context.close()
+    }
+  }
+
+  /** Context options for a variant of `url`; kept apart from the logged and archived options. */
+  contextOptionsFor(url: string): BrowserContextOptions {
+    const credentials = this.findHost(new URL(url))?.httpCredentials
+
+    return {
+      storageState: this.storageState,
+      httpCredentials: credentials ? { ...credentials, origin: new URL(url).origin } : undefined,
+    }
+  }
+
+  /** Adds the configured cookies and routes per-host headers through the context. */
+  async prepareContext(context: BrowserContext): Promise<void> {
+    const cookies = this.settings.hosts.flatMap((host) => host.cookies)
+
+    if (cookies.length > 0) {
+      await context.addCookies(cookies)
+    }
+
+    if (!this.settings.hosts.some((host) => Object.keys(host.headers).length > 0)) {
+      return
+    }
+
+    // Headers are only sent to their own host; extraHTTPHeaders would leak tokens to third parties.
+    await context.route("**/*", async (route) => {
+      const request = route.request()
+      const headers = this.findHost(new URL(request.url()))?.headers
+
+      if (!headers || Object.keys(headers).length === 0) {
+        await route.fallback()
+        return
+      }
+
+      await route.fallback({ headers: { ...request.headers(), ...headers } })
+    })
+  }
+
+  // Session cookies and stored tokens are as sensitive as passwords.
+  private static registerSecrets(state: StorageState) {
+    const redactor = SecretRedactor.getInstance()
+
+    for (const cookie of state.cookies ?? []) {
+      redactor.register(cookie.value)
+    }
+
+    for (const origin of state.origins ?? []) {
+      // localStorage also holds flags and counters; only token-sized values are treated as secrets.
+      for (const entry of origin.localStorage ?? []) {
+        if (entry.value.length >= 16) {
+          redactor.register(entry.value)
+        }
+      }
+    }
+  }
+
+  private findHost(url: URL): HostAuth | undefined {
+    const hostname = url.hostname.toLowerCase()
+    const hostWithPort = url.host.toLowerCase()
+
+    return (
+      this.settings.hosts.find((entry) => entry.host === hostWithPort || entry.host === hostname) ??
+      this.settings.hosts.find(
+        (entry) =>
+          entry.host.startsWith("*.") &&
+          (hostname === entry.host.slice(2) || hostname.endsWith(entry.host.slice(1))),
+      )
+    )
+  }
+}
@@ -0,0 +1,218 @@
+import { z } from "zod"
+import { formatValidationIssues } from "./formatValidationIssues"
+import { SecretRedactor } from "./secretRedactor"
+
+// Secrets are referenced instead of written down, so the auth file itself can be committed.
+const secretSchema = z.union([
+  z.object({ env: z.string().min(1), prefix: z.string().default("") }).strict(),
+  z.object({ file: z.string().min(1), prefix: z.string().default("") }).strict(),
+])
+
+// A cookie such as a consent flag is not always secret, so its value may be written down; it is
+// still masked like a referenced secret because the file cannot tell which cookies carry a session.
+const cookieValueSchema = z.union([secretSchema, z.string()])
+
+const cookieSchema = z
+  .object({
+    name: z.string().min(1),
+    value: cookieValueSchema,
+    domain: z.string().min(1).optional(),
+    path: z.string().default("/"),
+    secure: z.boolean().optional(),
+    httpOnly: z.boolean().optional(),
+    sameSite: z.enum(["Strict", "Lax", "None"]).optional(),
+  })
+  .strict()
+
+const hostAuthSchema = z
+  .object({
+    headers: z.record(z.string(), secretSchema).default({}),
+    cookies: z.array(cookieSchema).default([]),
+    httpCredentials: z
+      .object({ username: secretSchema, password: secretSchema })
+      .strict()
+      .optional(),
+  })
+  .strict()
+
+export const authFileSchema = z
+  .object({
+    hosts: z
+      .record(
+        z
+          .string()
+          .regex(
+            /^(\*\.)?[a-z0-9.-]+(:\d+)?$/i,
+            "Expected a host name such as example.com or *.example.com",
+          ),
+        hostAuthSchema,
+      )
+      .default({}),
+    login: z
+      .object({
+        script: z.string().min(1),
+        url: z.string().url().optional(),
+        credentials: z.record(z.string(), secretSchema).default({}),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+
+type SecretReference = z.infer<typeof cookieValueSchema>
+
+export interface AuthCookie {
+  name: string
+  value: string
+  domain: string
+  path: string
+  secure?: boolean
+  httpOnly?: boolean
+  sameSite?: "Strict" | "Lax" | "None"
+}
+
+export interface HostAuth {
+  /** Host name, or `*.example.com` for a domain and all of its subdomains. */
+  host: string
+  headers: Record<string, string>
+  cookies: AuthCookie[]
+  httpCredentials?: { username: string; password: string }
+}
+
+export interface LoginSettings {
+  script: string
+  url?: string
+  credentials: Record<string, string>
+}
+
+export interface AuthSettings {
+  hosts: HostAuth[]
+  login?: LoginSettings
+}
+
+/**
+ * Reads `AUTH_FILE` and resolves every `{ env }` and `{ file }` reference. Resolved values and plain
+ * cookie values are registered with the SecretRedactor before anything else can log them.
+ */
+export async function loadAuthSettings(filePath: string): Promise<AuthSettings> {
+  if (filePath.trim().length === 0) {
+    return { hosts: [] }
+  }
+
+  const file = Bun.file(filePath)
+
+  if (!(await file.exists())) {
+    throw new Error(`Auth file not found: ${filePath}`)
+  }
+
+  let raw: unknown
+
+  try {
+    const content = await file.text()
+    raw = filePath.toLowerCase().endsWith(".json") ? JSON.parse(content) : Bun.YAML.parse(content)
+  } catch (error) {
+    throw new Error(
+      `Auth file could not be parsed: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+    )
+  }
+
+  const parsed = authFileSchema.safeParse(raw)
+
+  if (!parsed.success) {
+    throw new Error(
+      `Auth file is invalid: ${filePath}\n${formatValidationIssues(parsed.error, raw)}`,
+    )
+  }
+
+  const hosts: HostAuth[] = []
+
+  for (const [host, entry] of Object.entries(parsed.data.hosts)) {
+    const where = `hosts.${host}`
+    const headers: Record<string, string> = {}
+
+    for (const [name, value] of Object.entries(entry.headers)) {
+      headers[name] = await resolveSecret(value, `${where}.headers.${name}`)
+    }
+
+    const cookies: AuthCookie[] = []
+
+    for (const [index, cookie] of entry.cookies.entries()) {
+      cookies.push({
+        ...cookie,
+        value: await resolveSecret(cookie.value, `${where}.cookies[${index}].value`),
+        // A wildcard host shares its cookies with every subdomain.
+        domain:
+          cookie.domain ?? (host.startsWith("*.") ? host.slice(1) : host).replace(/:\d+$/, ""),
+      })
+    }
+
+    const credentials = entry.httpCredentials
+    hosts.push({
+      host: host.toLowerCase(),
+      headers,
+      cookies,
+      httpCredentials: credentials
+        ? {
+            username: await resolveSecret(
+              credentials.username,
+              `${where}.httpCredentials.username`,
+            ),
+            password: await resolveSecret(
+              credentials.password,
+              `${where}.httpCredentials.password`,
+            ),
+          }
+        : undefined,
+    })
+  }
+
+  const login = parsed.data.login
+
+  if (!login) {
+    return { hosts }
+  }
+
+  if (!(await Bun.file(login.script).exists())) {
+    throw new Error(`Login script not found: ${login.script} (${filePath})`)
+  }
+
+  const credentials: Record<string, string> = {}
+
+  for (const [name, value] of Object.entries(login.credentials)) {
+    credentials[name] = await resolveSecret(value, `login.credentials.${name}`)
+  }
+
+  return { hosts, login: { script: login.script, url: login.url, credentials } }
+}
+
+async function resolveSecret(reference: SecretReference, where: string): Promise<string> {
+  if (typeof reference === "string") {
+    SecretRedactor.getInstance().register(reference)
+    return reference
+  }
+
+  let value: string
+
+  if ("env" in reference) {
+    const fromEnv = process.env[reference.env]
+
+    if (fromEnv === undefined || fromEnv.length === 0) {
+      throw new Error(`${where}: environment variable ${reference.env} is not set`)
+    }
+
+    value = fromEnv
+  } else {
+    const secretFile = Bun.file(reference.file)
+
+    if (!(await secretFile.exists())) {
+      throw new Error(`${where}: secret file not found: ${reference.file}`)
+    }
+
+    // Secret files usually end with a newline that is not part of the secret.
+    value = (await secretFile.text()).trim()
+  }
+
+  SecretRedactor.getInstance().register(value)
+  // A prefix such as "Bearer " is not secret, so only the referenced value is redacted.
+  return `${reference.prefix}${value}`
+}
@@ -0,0 +1,67 @@
+import {
+  type Browser,
+  type BrowserType,
+  chromium,
+  firefox,
+  type LaunchOptions,
+  webkit,
+} from "playwright"
+
+export const BROWSER_ENGINES = ["chromium", "firefox", "webkit"] as const
+
+export type BrowserEngine = (typeof BROWSER_ENGINES)[number]
+
+const BROWSER_TYPES: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit }
+
+const ENGINE_LABELS: Record<BrowserEngine, string> = {
+  chromium: "Chromium",
+  firefox: "Firefox",
+  webkit: "WebKit",
+}
+
+export function getBrowserEngineLabel(engine: BrowserEngine): string {
+  return ENGINE_LABELS[engine]
+}
+
+export function isBrowserEngine(value: string | undefined): value is BrowserEngine {
+  return (BROWSER_ENGINES as ReadonlyArray<string | undefined>).includes(value)
+}
+
+/** Launches one browser per engine a run needs and closes them together. */
+export class BrowserEngineLauncher {
+  private readonly browsers = new Map<BrowserEngine, Browser>()
+
+  constructor(private readonly launchOptionsFor: (engine: BrowserEngine) => LaunchOptions) {}
+
+  async launch(engine: BrowserEngine): Promise<Browser> {
+    const running = this.browsers.get(engine)
+
+    if (running) {
+      return running
+    }
+
+    const browser = await BROWSER_TYPES[engine].launch(this.launchOptionsFor(engine))
+    this.browsers.set(engine, browser)
+    return browser
+  }
+
+  get(engine: BrowserEngine): Browser {
+    const browser = this.browsers.get(engine)
+
+    if (!browser) {
+      throw new Error(`${ENGINE_LABELS[engine]} has not been launched.`)
+    }
+
+    return browser
+  }
+
+  launchedEngines(): BrowserEngine[] {
+    return [...this.browsers.keys()]
+  }
+
+  async close(engine: BrowserEngine): Promise<void> {
+    const browser = this.browsers.get(engine)
+    this.browsers.delete(engine)
+    await browser?.close()
+  }
+}
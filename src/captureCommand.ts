@@ -0,0 +1,119 @@
+import { AuthSession } from "./authSession"
+import { type CaptureTarget, createCaptureTarget } from "./captureTarget"
+import type { CliCommand } from "./cliCommand"
+import { config } from "./config"
+import type { DeviceProfile } from "./deviceProfile"
+import { FileLogger, RunFolderLoggingObserver } from "./fileLogger"
+import { loadCapturePlan } from "./loadCapturePlan"
+import type { InteractionStep } from "./interactionStep"
+import { loadDeviceProfiles } from "./loadDeviceProfiles"
+import { loadInteractionSteps } from "./loadInteractionSteps"
+import { loadRouteRules } from "./loadRouteRules"
+import { PageCaptureRunner } from "./pageCaptureRunner"
+import type { RouteRule } from "./routeRule"
+import { RunResumeState } from "./runResumeState"
+import { SitemapUrlSource } from "./sitemapUrlSource"
+
+export class CaptureCommand implements CliCommand {
+  async run(): Promise<void> {
+    let profiles: DeviceProfile[]
+    let targets: CaptureTarget[]
+    let interactionSteps: InteractionStep[]
+
+    try {
+      profiles = await loadDeviceProfiles(config.PROFILES_FILE, config.PROFILES)
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Failed to load device profiles.")
+      process.exitCode = 1
+      return
+    }
+
+    try {
+      targets = await this.loadTargets(profiles)
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Failed to load links from links.txt.")
+      process.exitCode = 1
+      return
+    }
+
+    try {
+      interactionSteps = await loadInteractionSteps(config.INTERACTION_STEPS_FILE)
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Failed to load interaction steps.")
+      process.exitCode = 1
+      return
+    }
+
+    if (config.CUSTOM_CSS_FILE.length > 0 && !(await Bun.file(config.CUSTOM_CSS_FILE).exists())) {
+      console.error(`Custom CSS file not found: ${config.CUSTOM_CSS_FILE}`)
+      process.exitCode = 1
+      return
+    }
+
+    let resumeState: RunResumeState | null = null
+
+    if (config.RESUME_RUN_FOLDER.length > 0) {
+      try {
+        resumeState = await RunResumeState.load(config.RESUME_RUN_FOLDER, {
+          failuresOnly: config.RETRY_FAILURES_ONLY,
+        })
+      } catch (error) {
+        console.error(error instanceof Error ? error.message : "Failed to load the run to resume.")
+        process.exitCode = 1
+        return
+      }
+    } else if (config.RETRY_FAILURES_ONLY) {
+      console.error("RETRY_FAILURES_ONLY requires RESUME_RUN_FOLDER to point at an earlier run.")
+      process.exitCode = 1
+      return
+    }
+
+    let authSession: AuthSession
+
+    try {
+      authSession = await AuthSession.load(config.AUTH_FILE, config.AUTH_STORAGE_STATE_FILE)
+    } catch (error) {
+      console.error(
+        error instanceof Error ? error.message : "Failed to load authentication settings.",
+      )
+      process.exitCode = 1
+      return
+    }
+
+    let routeRules: RouteRule[]
+
+    try {
+      routeRules = await loadRouteRules()
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : "Failed to load route rules.")
+      process.exitCode = 1
+      return
+    }
+
+    const runner = new PageCaptureRunner(targets, profiles, config.DEFAULT_OUTPUT_DIR, {
+      resumeState,
+      interactionSteps,
+      authSession: authSession.isEmpty ? null : authSession,
+      routeRules,
+    })
+    runner.registerRunFolderObserver(new RunFolderLoggingObserver(FileLogger.getInstance()))
+    await runner.run()
+  }
+
+  private async loadTargets(profiles: DeviceProfile[]): Promise<CaptureTarget[]> {
+    if (config.SITEMAP_FILE.length > 0) {
+      const source = new SitemapUrlSource(config.SITEMAP_FILE, {
+        includePatterns: config.SITEMAP_INCLUDE_PATTERNS,
+        excludePatterns: config.SITEMAP_EXCLUDE_PATTERNS,
+        lastModifiedSince: config.SITEMAP_LASTMOD_SINCE,
+      })
+      const urls = await source.load()
+      return urls.map((url) => createCaptureTarget(url))
+    }
+
+    return loadCapturePlan(
+      config.LINKS_FILE,
+      profiles.map((profile) => profile.name),
+    )
+  }
+}
@@ -1,21 +1,45 @@
+import type { CaptureTarget } from "./captureTarget"
+import type { MetadataDifference } from "./pageMetadataExtractor"
+import type { VariantOutcome } from "./variantOutcome"
+
 export class CaptureOutcome {
   constructor(
-    public readonly url: string,
+    public readonly target: CaptureTarget,
     public readonly folder: string,
     public readonly success: boolean,
     public readonly error?: string,
+    public readonly variants: ReadonlyArray<VariantOutcome> = [],
+    /** Null when fewer than two variants had their metadata extracted. */
+    public readonly metadataDifferences: ReadonlyArray<MetadataDifference> | null = null,
   ) {}
 
-  static ok(url: string, folder: string) {
-    return new CaptureOutcome(url, folder, true)
+  get url(): string {
+    return this.target.url
+  }
+
+  static ok(
+    target: CaptureTarget,
+    folder: string,
+    variants: ReadonlyArray<VariantOutcome> = [],
+    metadataDifferences: ReadonlyArray<MetadataDifference> | null = null,
+  ) {
+    return new CaptureOutcome(target, folder, true, undefined, variants, metadataDifferences)
   }
 
-  static fail(url: string, folder: string, error: unknown) {
+  static fail(
+    target: CaptureTarget,
+    folder: string,
+    error: unknown,
+    variants: ReadonlyArray<VariantOutcome> = [],
+    metadataDifferences: ReadonlyArray<MetadataDifference> | null = null,
+  ) {
     return new CaptureOutcome(
-      url,
+      target,
       folder,
       false,
       error instanceof Error ? error.message : String(error),
+      variants,
+      metadataDifferences,
     )
   }
 }
@@ -0,0 +1,90 @@
+import { z } from "zod"
+import { interactionStepListSchema } from "./interactionStep"
+import { maskRulesSchema } from "./screenshotMasks"
+import { normalizeUrl } from "./loadUrlsFromFile"
+
+const positiveTimeoutSchema = z.number().int().positive()
+
+const urlSchema = z.string().transform((value, context) => {
+  try {
+    return normalizeUrl(value.trim())
+  } catch {
+    context.addIssue({ code: "custom", message: `Invalid URL "${value}"` })
+    return z.NEVER
+  }
+})
+
+export function buildCapturePlanSchema(profileNames: ReadonlyArray<string>) {
+  const knownProfiles = new Set(profileNames)
+
+  const captureTargetSchema = z
+    .object({
+      url: urlSchema,
+      folder: z
+        .string()
+        .regex(
+          /^[a-z0-9][a-z0-9._-]*$/i,
+          "Folder names may only contain letters, digits, dots, underscores and dashes",
+        )
+        .optional(),
+      profiles: z
+        .array(z.string())
+        .min(1, "At least one profile is required when profiles are listed")
+        .superRefine((names, context) => {
+          for (const [index, name] of names.entries()) {
+            if (!knownProfiles.has(name)) {
+              context.addIssue({
+                code: "custom",
+                path: [index],
+                message: `Unknown device profile "${name}". Available profiles: ${profileNames.join(", ")}`,
+              })
+            }
+          }
+        })
+        .optional(),
+      primaryNavigationTimeoutMs: positiveTimeoutSchema.optional(),
+      fallbackNavigationTimeoutMs: positiveTimeoutSchema.optional(),
+      waitForSelector: z.string().min(1).optional(),
+      steps: interactionStepListSchema.optional(),
+      masks: maskRulesSchema.optional(),
+      headers: z.record(z.string(), z.string()).optional(),
+      tags: z.array(z.string().min(1)).default([]),
+    })
+    .strict()
+
+  return z
+    .object({
+      targets: z.array(captureTargetSchema).min(1, "At least one target is required"),
+    })
+    .strict()
+    .superRefine((plan, context) => {
+      const seenFolders = new Set<string>()
+
+      for (const [index, target] of plan.targets.entries()) {
+        if (target.folder === undefined) {
+          continue
+        }
+
+        if (seenFolders.has(target.folder)) {
+          context.addIssue({
+            code: "custom",
+            path: ["targets", index, "folder"],
+            message: `Folder "${target.folder}" is already used by another target`,
+          })
+        }
+
+        seenFolders.add(target.folder)
+      }
+    })
+}
+
+type CapturePlanEntry = z.infer<ReturnType<typeof buildCapturePlanSchema>>["targets"][number]
+
+export type CaptureTarget = CapturePlanEntry & {
+  discoveredFrom?: string
+  depth?: number
+}
+
+export function createCaptureTarget(url: string): CaptureTarget {
+  return { url, tags: [] }
+}
@@ -0,0 +1,58 @@
+import { type BrowserEngine, getBrowserEngineLabel } from "./browserEngine"
+import { type DeviceProfile, getDeviceProfileLabel } from "./deviceProfile"
+
+/** One device profile rendered in one browser engine; every link is captured once per variant. */
+export interface CaptureVariant {
+  /** Unique within a run; names the variant's artifacts. */
+  name: string
+  label: string
+  profile: DeviceProfile
+  engine: BrowserEngine
+}
+
+export interface CaptureVariantOptions {
+  /** Engines every profile is captured in; empty leaves the choice to each profile. */
+  runEngines: ReadonlyArray<BrowserEngine>
+  /** The engine a profile's device descriptor was made for, if any. */
+  descriptorEngine: (profile: DeviceProfile) => BrowserEngine | undefined
+}
+
+/**
+ * Expands profiles into variants. The run's engines win over the profile's own `engine`, which
+ * wins over the descriptor's default; Chromium is used when none of them decides. The engine only
+ * becomes part of the variant names when engines were mixed on purpose, through the run's engines
+ * or a profile's `engine`. An engine that merely follows a descriptor, such as WebKit for an
+ * iPhone preset, keeps the `page.<profile>.*` artifact names.
+ */
+export function buildCaptureVariants(
+  profiles: ReadonlyArray<DeviceProfile>,
+  options: CaptureVariantOptions,
+): CaptureVariant[] {
+  const runEngines = [...new Set(options.runEngines)]
+  const profileEngines = profiles.map((profile) => {
+    if (runEngines.length > 0) {
+      return { profile, engines: runEngines, explicit: true }
+    }
+
+    const descriptorEngine = profile.engine ? undefined : options.descriptorEngine(profile)
+    return {
+      profile,
+      engines: [profile.engine ?? descriptorEngine ?? "chromium"],
+      explicit: descriptorEngine === undefined,
+    }
+  })
+  const multipleEngines =
+    new Set(profileEngines.filter(({ explicit }) => explicit).flatMap(({ engines }) => engines))
+      .size > 1
+
+  return profileEngines.flatMap(({ profile, engines }) =>
+    engines.map((engine) => ({
+      name: multipleEngines ? `${profile.name}.${engine}` : profile.name,
+      label: multipleEngines
+        ? `${getDeviceProfileLabel(profile)} (${getBrowserEngineLabel(engine)})`
+        : getDeviceProfileLabel(profile),
+      profile,
+      engine,
+    })),
+  )
+}
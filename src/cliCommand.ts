@@ -0,0 +1,3 @@
+export interface CliCommand {
+  run(args: ReadonlyArray<string>): Promise<void>
+}
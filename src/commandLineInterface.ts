@@ -0,0 +1,123 @@
+import type { CliCommand } from "./cliCommand"
+import { CommandLineParser, type ConfigurationFlag } from "./commandLineParser"
+import { ConfigurationOverrides } from "./configurationOverrides"
+
+interface CommandDefinition {
+  usage: string
+  summary: string
+  load(): Promise<CliCommand>
+}
+
+export class CommandLineInterface {
+  static readonly DEFAULT_COMMAND = "capture"
+
+  // Command modules import `config`, so they are loaded lazily once the command line
+  // overrides are in place.
+  private static readonly COMMANDS: Readonly<Record<string, CommandDefinition>> = {
+    capture: {
+      usage: "capture [options]",
+      summary: "Capture every configured URL with every device profile (default).",
+      load: async () => new (await import("./captureCommand")).CaptureCommand(),
+    },
+    compare: {
+      usage: "compare <baseline-run-folder> <candidate-run-folder> [options]",
+      summary: "Diff the screenshots of two capture runs.",
+      load: async () => new (await import("./compareCommand")).CompareCommand(),
+    },
+    report: {
+      usage: "report <run-folder>",
+      summary: "Summarize the manifest of a finished capture run.",
+      load: async () => new (await import("./reportCommand")).ReportCommand(),
+    },
+    "config print": {
+      usage: "config print [options]",
+      summary: "Print the effective configuration after applying environment and flags.",
+      load: async () => new (await import("./configPrintCommand")).ConfigPrintCommand(),
+    },
+  }
+
+  private readonly parser = new CommandLineParser()
+
+  async run(argv: ReadonlyArray<string>): Promise<void> {
+    const parsed = this.parser.parse(argv)
+
+    if (parsed.help) {
+      console.log(this.buildHelp())
+      return
+    }
+
+    const [commandName, args] = CommandLineInterface.resolveCommand(parsed.positionals)
+    const definition = CommandLineInterface.COMMANDS[commandName]
+
+    if (!definition) {
+      throw new Error(`Unknown command "${commandName}". Run with --help to list the commands.`)
+    }
+
+    const overrides = ConfigurationOverrides.getInstance()
+    for (const [key, value] of parsed.overrides) {
+      overrides.set(key, value)
+    }
+
+    const command = await definition.load()
+    await command.run(args)
+  }
+
+  private static resolveCommand(positionals: ReadonlyArray<string>): [string, string[]] {
+    const [first, second, ...rest] = positionals
+
+    if (first === undefined) {
+      return [CommandLineInterface.DEFAULT_COMMAND, []]
+    }
+
+    if (first === "config") {
+      return second === undefined ? [first, rest] : [`${first} ${second}`, rest]
+    }
+
+    return [first, positionals.slice(1)]
+  }
+
+  private buildHelp(): string {
+    const aliasesByKey = new Map<string, string[]>()
+    for (const [alias, key] of Object.entries(CommandLineParser.ALIASES)) {
+      aliasesByKey.set(key, [...(aliasesByKey.get(key) ?? []), alias])
+    }
+
+    const lines = ["Usage: bun run index.ts <command> [options]", "", "Commands:"]
+
+    for (const definition of Object.values(CommandLineInterface.COMMANDS)) {
+      lines.push(`  ${definition.usage}`, `      ${definition.summary}`)
+    }
+
+    lines.push(
+      "",
+      "Options (each overrides the environment variable shown in brackets):",
+      "  -h, --help",
+      "      Show this help.",
+    )
+
+    for (const flag of this.parser.getFlags()) {
+      lines.push(
+        `  ${CommandLineInterface.describeFlagNames(flag, aliasesByKey.get(flag.key) ?? [])}`,
+      )
+      lines.push(
+        `      ${flag.description} [env: ${flag.key}, default: ${flag.defaultValue || '""'}]`,
+      )
+    }
+
+    return lines.join("\n")
+  }
+
+  private static describeFlagNames(
+    flag: ConfigurationFlag,
+    aliases: ReadonlyArray<string>,
+  ): string {
+    const value = flag.isBoolean ? "" : " <value>"
+    const names = [...aliases, flag.name].map((name) => `--${name}${value}`)
+
+    if (flag.isBoolean) {
+      names.push(`--no-${flag.name}`)
+    }
+
+    return names.join(", ")
+  }
+}
@@ -0,0 +1,167 @@
+import { type ConfigurationShape, configurationSchema } from "./configurationSchema"
+
+export type ConfigurationKey = keyof ConfigurationShape
+
+export interface ConfigurationFlag {
+  name: string
+  key: ConfigurationKey
+  description: string
+  defaultValue: string
+  isBoolean: boolean
+}
+
+export interface ParsedCommandLine {
+  positionals: string[]
+  overrides: Map<ConfigurationKey, string>
+  help: boolean
+}
+
+export class CommandLineParser {
+  /** Short names for the most common configuration flags. */
+  static readonly ALIASES: Readonly<Record<string, ConfigurationKey>> = {
+    links: "LINKS_FILE",
+    out: "DEFAULT_OUTPUT_DIR",
+    profiles: "PROFILES",
+    concurrency: "CAPTURE_CONCURRENCY",
+    timeout: "PRIMARY_NAVIGATION_TIMEOUT_MS",
+    resume: "RESUME_RUN_FOLDER",
+  }
+
+  private readonly flags: ReadonlyArray<ConfigurationFlag>
+  private readonly flagsByName: ReadonlyMap<string, ConfigurationFlag>
+
+  constructor() {
+    this.flags = CommandLineParser.buildFlags()
+    const byName = new Map(this.flags.map((flag) => [flag.name, flag]))
+
+    for (const [alias, key] of Object.entries(CommandLineParser.ALIASES)) {
+      const target = this.flags.find((flag) => flag.key === key)
+      if (target) {
+        byName.set(alias, target)
+      }
+    }
+
+    this.flagsByName = byName
+  }
+
+  getFlags(): ReadonlyArray<ConfigurationFlag> {
+    return this.flags
+  }
+
+  parse(args: ReadonlyArray<string>): ParsedCommandLine {
+    const positionals: string[] = []
+    const overrides = new Map<ConfigurationKey, string>()
+    let help = false
+
+    for (let index = 0; index < args.length; index++) {
+      const arg = args[index] ?? ""
+
+      if (arg === "--help" || arg === "-h") {
+        help = true
+        continue
+      }
+
+      if (arg === "--") {
+        positionals.push(...args.slice(index + 1))
+        break
+      }
+
+      if (!arg.startsWith("--")) {
+        positionals.push(arg)
+        continue
+      }
+
+      const [rawName = "", inlineValue] = CommandLineParser.splitFlag(arg.slice(2))
+      const negated = rawName.startsWith("no-") && !this.flagsByName.has(rawName)
+      const name = negated ? rawName.slice(3) : rawName
+      const flag = this.flagsByName.get(name)
+
+      if (!flag) {
+        throw new Error(`Unknown option --${rawName}. Run with --help to list the options.`)
+      }
+
+      if (negated) {
+        if (!flag.isBoolean || inlineValue !== undefined) {
+          throw new Error(`Option --${rawName} is only valid for boolean options without a value.`)
+        }
+        overrides.set(flag.key, "false")
+        continue
+      }
+
+      let value = inlineValue
+
+      if (value === undefined) {
+        const next = args[index + 1]
+        if (flag.isBoolean) {
+          value = next === "true" || next === "false" ? next : "true"
+          if (value === next) {
+            index++
+          }
+        } else if (next === undefined || next.startsWith("--")) {
+          throw new Error(`Option --${name} expects a value.`)
+        } else {
+          value = next
+          index++
+        }
+      }
+
+      overrides.set(flag.key, CommandLineParser.validate(flag, name, value))
+    }
+
+    return { positionals, overrides, help }
+  }
+
+  // Values are validated with the same zod schema that reads the environment so flags and
+  // environment variables can never disagree on what is accepted.
+  private static validate(flag: ConfigurationFlag, name: string, value: string): string {
+    try {
+      configurationSchema.shape[flag.key].parse(value)
+      return value
+    } catch (error) {
+      throw new Error(
+        `Invalid value for --${name} (${flag.key}): ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  private static splitFlag(flag: string): [string, string | undefined] {
+    const separatorIndex = flag.indexOf("=")
+    if (separatorIndex < 0) {
+      return [flag, undefined]
+    }
+    return [flag.slice(0, separatorIndex), flag.slice(separatorIndex + 1)]
+  }
+
+  private static buildFlags(): ConfigurationFlag[] {
+    const defaults = configurationSchema.parse({})
+
+    return (Object.keys(configurationSchema.shape) as ConfigurationKey[]).map((key) => {
+      const defaultValue = defaults[key]
+      return {
+        name: key.toLowerCase().replace(/_/g, "-"),
+        key,
+        description: configurationSchema.shape[key].description ?? "",
+        defaultValue: CommandLineParser.formatDefault(defaultValue),
+        isBoolean: typeof defaultValue === "boolean",
+      }
+    })
+  }
+
+  private static formatDefault(value: unknown): string {
+    if (value === null || value === undefined) {
+      return ""
+    }
+    if (Array.isArray(value)) {
+      return value.join(",")
+    }
+    if (value instanceof Date) {
+      return value.toISOString()
+    }
+    if (typeof value === "object") {
+      return Object.entries(value)
+        .map(([key, entry]) => `${key}=${entry}`)
+        .join(",")
+    }
+    return String(value)
+  }
+}
@@ -0,0 +1,22 @@
+import type { CliCommand } from "./cliCommand"
+import { config } from "./config"
+import { RunComparator } from "./runComparator"
+
+export class CompareCommand implements CliCommand {
+  async run(args: ReadonlyArray<string>): Promise<void> {
+    const [baselineDir, candidateDir] = args
+
+    if (!baselineDir || !candidateDir || args.length > 2) {
+      throw new Error(
+        "Usage: bun run index.ts compare <baseline-run-folder> <candidate-run-folder>",
+      )
+    }
+
+    const comparator = new RunComparator(baselineDir, candidateDir, {
+      threshold: config.COMPARE_PIXEL_THRESHOLD,
+      ignoreAntiAliasing: config.COMPARE_IGNORE_ANTI_ALIASING,
+      maxChangedPercent: config.COMPARE_MAX_CHANGED_PERCENT,
+    })
+    await comparator.compare()
+  }
+}
@@ -1,133 +1,19 @@
-import { z } from "zod"
+import type { AccessibilityImpact } from "./accessibilityAuditor"
+import type { BrowserEngine } from "./browserEngine"
+import { ConfigurationOverrides } from "./configurationOverrides"
+import {
+  type ColorScheme,
+  type ConfigurationShape,
+  configurationSchema,
+} from "./configurationSchema"
+import type { HarContentMode } from "./deviceContextFactory"
+import type { FailureCategory } from "./failureCategory"
+import type { ArchiveFormat } from "./pageArchiver"
+import type { NetworkThrottlingPreset } from "./pageThrottler"
+import type { PdfMargin, PdfRenderOptions } from "./pdfRenderer"
+import type { ResourceType } from "./routeRule"
 
-export type ColorScheme = "dark" | "light" | "no-preference" | null | undefined
-
-const stringFromEnv = (defaultValue: string) =>
-  z
-    .string()
-    .optional()
-    .transform((value) => (value === undefined || value.length === 0 ? defaultValue : value))
-
-const numberFromEnv = (defaultValue: number) =>
-  z
-    .string()
-    .optional()
-    .transform((value) => {
-      if (value === undefined || value.length === 0) {
-        return defaultValue
-      }
-      const parsed = Number(value)
-      if (!Number.isFinite(parsed)) {
-        throw new Error(`Expected a number but received "${value}"`)
-      }
-      return parsed
-    })
-
-const booleanFromEnv = (defaultValue: boolean) =>
-  z
-    .string()
-    .optional()
-    .transform((value) => {
-      if (value === undefined || value.length === 0) {
-        return defaultValue
-      }
-      if (value === "true") {
-        return true
-      }
-      if (value === "false") {
-        return false
-      }
-      throw new Error(`Expected "true" or "false" but received "${value}"`)
-    })
-
-const stringArrayFromEnv = (defaultValue: string[]) =>
-  z
-    .string()
-    .optional()
-    .transform((value) => {
-      if (value === undefined || value.trim().length === 0) {
-        return [...defaultValue]
-      }
-      return value
-        .split(",")
-        .map((item) => item.trim())
-        .filter((item) => item.length > 0)
-    })
-
-const colorSchemeFromEnv = (defaultValue: ColorScheme) =>
-  z
-    .string()
-    .optional()
-    .transform<ColorScheme>((value) => {
-      if (value === undefined || value.trim().length === 0) {
-        return defaultValue
-      }
-      const normalized = value.trim().toLowerCase()
-      if (normalized === "null") {
-        return null
-      }
-      if (normalized === "undefined") {
-        return undefined
-      }
-      if (normalized === "dark" || normalized === "light" || normalized === "no-preference") {
-        return normalized as ColorScheme
-      }
-      throw new Error(
-        `Expected one of "dark", "light", "no-preference", "null" or "undefined" but received "${value}"`,
-      )
-    })
-
-const configurationSchema = z.object({
-  DEFAULT_OUTPUT_DIR: stringFromEnv("output"),
-  LINKS_FILE: stringFromEnv("links.txt"),
-  PARALLEL_CAPTURE_ENABLED: booleanFromEnv(true),
-  DESKTOP_VIEWPORT_WIDTH: numberFromEnv(1280),
-  DESKTOP_VIEWPORT_HEIGHT: numberFromEnv(720),
-  DESKTOP_DEVICE_DESCRIPTOR: stringFromEnv("Desktop Chrome"),
-  DESKTOP_SCREEN_WIDTH: numberFromEnv(1920),
-  DESKTOP_SCREEN_HEIGHT: numberFromEnv(1080),
-  DESKTOP_DEVICE_SCALE_FACTOR: numberFromEnv(1.5),
-  DESKTOP_LOCALE: stringFromEnv("en-US"),
-  DESKTOP_TIMEZONE_ID: stringFromEnv("Europe/Istanbul"),
-  DESKTOP_COLOR_SCHEME: colorSchemeFromEnv("dark"),
-  MOBILE_VIEWPORT_WIDTH: numberFromEnv(390),
-  MOBILE_VIEWPORT_HEIGHT: numberFromEnv(844),
-  MOBILE_DEVICE_DESCRIPTOR: stringFromEnv("Pixel 5"),
-  MOBILE_SCREEN_WIDTH: numberFromEnv(1080),
-  MOBILE_SCREEN_HEIGHT: numberFromEnv(2340),
-  MOBILE_DEVICE_SCALE_FACTOR: numberFromEnv(3),
-  MOBILE_LOCALE: stringFromEnv("en-US"),
-  MOBILE_TIMEZONE_ID: stringFromEnv("America/Los_Angeles"),
-  MOBILE_COLOR_SCHEME: colorSchemeFromEnv("dark"),
-  TABLET_VIEWPORT_WIDTH: numberFromEnv(1024),
-  TABLET_VIEWPORT_HEIGHT: numberFromEnv(1366),
-  TABLET_DEVICE_DESCRIPTOR: stringFromEnv("iPad (gen 7)"),
-  TABLET_SCREEN_WIDTH: numberFromEnv(1620),
-  TABLET_SCREEN_HEIGHT: numberFromEnv(2160),
-  TABLET_DEVICE_SCALE_FACTOR: numberFromEnv(2),
-  TABLET_LOCALE: stringFromEnv("en-US"),
-  TABLET_TIMEZONE_ID: stringFromEnv("America/Los_Angeles"),
-  TABLET_COLOR_SCHEME: colorSchemeFromEnv("dark"),
-  PRIMARY_NAVIGATION_TIMEOUT_MS: numberFromEnv(45000),
-  FALLBACK_NAVIGATION_TIMEOUT_MS: numberFromEnv(60000),
-  POST_NAVIGATION_IDLE_MS: numberFromEnv(1000),
-  CAPTURE_STABILIZATION_DELAY_MS: numberFromEnv(2000),
-  CONTENT_READY_TIMEOUT_MS: numberFromEnv(10000),
-  CHROMIUM_HOST_RESOLVER_RULES: stringArrayFromEnv([]),
-  CHROMIUM_USE_CUSTOM_DNS: booleanFromEnv(false),
-  CHROMIUM_DNS_SERVERS: stringArrayFromEnv(["94.140.14.14", "94.140.14.15"]),
-  DESKTOP_USER_AGENT: stringFromEnv(
-    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-  ),
-  DEFAULT_MOBILE_USER_AGENT: stringFromEnv(
-    "Mozilla/5.0 (Linux; Android 11; Pixel 5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.71 Mobile Safari/537.36",
-  ),
-  DEFAULT_TABLET_USER_AGENT: stringFromEnv(
-    "Mozilla/5.0 (iPad; CPU OS 14_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0 Mobile/15E148 Safari/604.1",
-  ),
-})
-
-type ConfigurationShape = z.infer<typeof configurationSchema>
+export type { ColorScheme }
 
 class RuntimeConfiguration {
   private static instance: RuntimeConfiguration | null = null
@@ -142,6 +28,8 @@ class RuntimeConfiguration {
   public readonly DESKTOP_LOCALE: string
   public readonly DESKTOP_TIMEZONE_ID: string
   public readonly DESKTOP_COLOR_SCHEME: ColorScheme
+  public readonly DESKTOP_CPU_THROTTLING_RATE: number
+  public readonly DESKTOP_NETWORK_THROTTLING: NetworkThrottlingPreset | null
   public readonly MOBILE_VIEWPORT: Readonly<{ width: number; height: number }>
   public readonly MOBILE_DEVICE_DESCRIPTOR: string
   public readonly MOBILE_SCREEN: Readonly<{ width: number; height: number }>
@@ -149,6 +37,8 @@ class RuntimeConfiguration {
   public readonly MOBILE_LOCALE: string
   public readonly MOBILE_TIMEZONE_ID: string
   public readonly MOBILE_COLOR_SCHEME: ColorScheme
+  public readonly MOBILE_CPU_THROTTLING_RATE: number
+  public readonly MOBILE_NETWORK_THROTTLING: NetworkThrottlingPreset | null
   public readonly TABLET_VIEWPORT: Readonly<{ width: number; height: number }>
   public readonly TABLET_DEVICE_DESCRIPTOR: string
   public readonly TABLET_SCREEN: Readonly<{ width: number; height: number }>
@@ -156,17 +46,84 @@ class RuntimeConfiguration {
   public readonly TABLET_LOCALE: string
   public readonly TABLET_TIMEZONE_ID: string
   public readonly TABLET_COLOR_SCHEME: ColorScheme
+  public readonly TABLET_CPU_THROTTLING_RATE: number
+  public readonly TABLET_NETWORK_THROTTLING: NetworkThrottlingPreset | null
   public readonly PRIMARY_NAVIGATION_TIMEOUT_MS: number
   public readonly FALLBACK_NAVIGATION_TIMEOUT_MS: number
   public readonly POST_NAVIGATION_IDLE_MS: number
   public readonly CAPTURE_STABILIZATION_DELAY_MS: number
   public readonly CONTENT_READY_TIMEOUT_MS: number
+  public readonly BROWSER_ENGINES: ReadonlyArray<BrowserEngine>
   public readonly CHROMIUM_HOST_RESOLVER_RULES: ReadonlyArray<string>
   public readonly CHROMIUM_USE_CUSTOM_DNS: boolean
   public readonly CHROMIUM_DNS_SERVERS: ReadonlyArray<string>
+  public readonly BLOCKED_DOMAINS: ReadonlyArray<string>
+  public readonly BLOCKED_RESOURCE_TYPES: ReadonlyArray<ResourceType>
+  public readonly ROUTE_RULES_FILE: string
   public readonly DESKTOP_USER_AGENT: string
   public readonly DEFAULT_MOBILE_USER_AGENT: string
   public readonly DEFAULT_TABLET_USER_AGENT: string
+  public readonly COMPARE_PIXEL_THRESHOLD: number
+  public readonly COMPARE_IGNORE_ANTI_ALIASING: boolean
+  public readonly COMPARE_MAX_CHANGED_PERCENT: number
+  public readonly PROFILES_FILE: string
+  public readonly PROFILES: ReadonlyArray<string>
+  public readonly SITEMAP_FILE: string
+  public readonly SITEMAP_INCLUDE_PATTERNS: ReadonlyArray<string>
+  public readonly SITEMAP_EXCLUDE_PATTERNS: ReadonlyArray<string>
+  public readonly SITEMAP_LASTMOD_SINCE: Date | null
+  public readonly CRAWL_ENABLED: boolean
+  public readonly CRAWL_MAX_DEPTH: number
+  public readonly CRAWL_MAX_PAGES: number
+  public readonly CRAWL_INCLUDE_PATTERNS: ReadonlyArray<string>
+  public readonly CRAWL_EXCLUDE_PATTERNS: ReadonlyArray<string>
+  public readonly CRAWL_TRACKING_PARAMS: ReadonlyArray<string>
+  public readonly CAPTURE_CONCURRENCY: number
+  public readonly CAPTURE_HOST_CONCURRENCY: number
+  public readonly CAPTURE_HOST_LIMITS: Readonly<Record<string, number>>
+  public readonly RESUME_RUN_FOLDER: string
+  public readonly RETRY_FAILURES_ONLY: boolean
+  public readonly ARCHIVE_FORMAT: ArchiveFormat
+  public readonly ARCHIVE_RESOURCE_TIMEOUT_MS: number
+  public readonly WARC_ENABLED: boolean
+  public readonly HAR_ENABLED: boolean
+  public readonly HAR_CONTENT: HarContentMode
+  public readonly HAR_URL_FILTER: string
+  public readonly INTERACTION_STEPS_FILE: string
+  public readonly INTERACTION_STEP_TIMEOUT_MS: number
+  public readonly AUTO_SCROLL_ENABLED: boolean
+  public readonly AUTO_SCROLL_MAX_HEIGHT_PX: number
+  public readonly AUTO_SCROLL_TIMEOUT_MS: number
+  public readonly AUTO_SCROLL_STEP_DELAY_MS: number
+  public readonly AUTO_SCROLL_IMAGE_TIMEOUT_MS: number
+  public readonly MASK_HIDE_SELECTORS: ReadonlyArray<string>
+  public readonly MASK_COLLAPSE_SELECTORS: ReadonlyArray<string>
+  public readonly MASK_BOX_SELECTORS: ReadonlyArray<string>
+  public readonly MASK_REMOVE_SELECTORS: ReadonlyArray<string>
+  public readonly MASK_COLOR: string
+  public readonly CUSTOM_CSS_FILE: string
+  public readonly AUTH_FILE: string
+  public readonly AUTH_STORAGE_STATE_FILE: string
+  public readonly PERFORMANCE_METRICS_ENABLED: boolean
+  public readonly METADATA_ENABLED: boolean
+  public readonly CONSOLE_CAPTURE_ENABLED: boolean
+  public readonly FAIL_ON_PAGE_ERRORS: boolean
+  public readonly A11Y_ENABLED: boolean
+  public readonly A11Y_RULE_TAGS: ReadonlyArray<string>
+  public readonly A11Y_FAIL_ON_IMPACT: AccessibilityImpact | "none"
+  public readonly GALLERY_ENABLED: boolean
+  public readonly PDF_ENABLED: boolean
+  public readonly PDF_FORMAT: PdfRenderOptions["format"]
+  public readonly PDF_MARGIN: Readonly<PdfMargin>
+  public readonly PDF_PRINT_BACKGROUND: boolean
+  public readonly PDF_MEDIA: PdfRenderOptions["media"]
+  public readonly PDF_HEADER_FOOTER_ENABLED: boolean
+  public readonly PDF_HEADER_TEMPLATE: string
+  public readonly PDF_FOOTER_TEMPLATE: string
+  public readonly CAPTURE_MAX_ATTEMPTS: number
+  public readonly CAPTURE_RETRY_BASE_DELAY_MS: number
+  public readonly CAPTURE_RETRY_MAX_DELAY_MS: number
+  public readonly CAPTURE_RETRY_ON: ReadonlyArray<FailureCategory>
 
   private constructor(values: ConfigurationShape) {
     this.DEFAULT_OUTPUT_DIR = values.DEFAULT_OUTPUT_DIR
@@ -185,6 +142,8 @@ class RuntimeConfiguration {
     this.DESKTOP_LOCALE = values.DESKTOP_LOCALE
     this.DESKTOP_TIMEZONE_ID = values.DESKTOP_TIMEZONE_ID
     this.DESKTOP_COLOR_SCHEME = values.DESKTOP_COLOR_SCHEME
+    this.DESKTOP_CPU_THROTTLING_RATE = values.DESKTOP_CPU_THROTTLING_RATE
+    this.DESKTOP_NETWORK_THROTTLING = values.DESKTOP_NETWORK_THROTTLING
     this.MOBILE_VIEWPORT = Object.freeze({
       width: values.MOBILE_VIEWPORT_WIDTH,
       height: values.MOBILE_VIEWPORT_HEIGHT,
@@ -198,6 +157,8 @@ class RuntimeConfiguration {
     this.MOBILE_LOCALE = values.MOBILE_LOCALE
     this.MOBILE_TIMEZONE_ID = values.MOBILE_TIMEZONE_ID
     this.MOBILE_COLOR_SCHEME = values.MOBILE_COLOR_SCHEME
+    this.MOBILE_CPU_THROTTLING_RATE = values.MOBILE_CPU_THROTTLING_RATE
+    this.MOBILE_NETWORK_THROTTLING = values.MOBILE_NETWORK_THROTTLING
     this.TABLET_VIEWPORT = Object.freeze({
       width: values.TABLET_VIEWPORT_WIDTH,
       height: values.TABLET_VIEWPORT_HEIGHT,
@@ -211,22 +172,92 @@ class RuntimeConfiguration {
     this.TABLET_LOCALE = values.TABLET_LOCALE
     this.TABLET_TIMEZONE_ID = values.TABLET_TIMEZONE_ID
     this.TABLET_COLOR_SCHEME = values.TABLET_COLOR_SCHEME
+    this.TABLET_CPU_THROTTLING_RATE = values.TABLET_CPU_THROTTLING_RATE
+    this.TABLET_NETWORK_THROTTLING = values.TABLET_NETWORK_THROTTLING
     this.PRIMARY_NAVIGATION_TIMEOUT_MS = values.PRIMARY_NAVIGATION_TIMEOUT_MS
     this.FALLBACK_NAVIGATION_TIMEOUT_MS = values.FALLBACK_NAVIGATION_TIMEOUT_MS
     this.POST_NAVIGATION_IDLE_MS = values.POST_NAVIGATION_IDLE_MS
     this.CAPTURE_STABILIZATION_DELAY_MS = values.CAPTURE_STABILIZATION_DELAY_MS
     this.CONTENT_READY_TIMEOUT_MS = values.CONTENT_READY_TIMEOUT_MS
+    this.BROWSER_ENGINES = Object.freeze([...values.BROWSER_ENGINES])
     this.CHROMIUM_HOST_RESOLVER_RULES = Object.freeze([...values.CHROMIUM_HOST_RESOLVER_RULES])
     this.CHROMIUM_USE_CUSTOM_DNS = values.CHROMIUM_USE_CUSTOM_DNS
     this.CHROMIUM_DNS_SERVERS = Object.freeze([...values.CHROMIUM_DNS_SERVERS])
+    this.BLOCKED_DOMAINS = Object.freeze([...values.BLOCKED_DOMAINS])
+    this.BLOCKED_RESOURCE_TYPES = Object.freeze([...values.BLOCKED_RESOURCE_TYPES])
+    this.ROUTE_RULES_FILE = values.ROUTE_RULES_FILE
     this.DESKTOP_USER_AGENT = values.DESKTOP_USER_AGENT
     this.DEFAULT_MOBILE_USER_AGENT = values.DEFAULT_MOBILE_USER_AGENT
     this.DEFAULT_TABLET_USER_AGENT = values.DEFAULT_TABLET_USER_AGENT
+    this.COMPARE_PIXEL_THRESHOLD = values.COMPARE_PIXEL_THRESHOLD
+    this.COMPARE_IGNORE_ANTI_ALIASING = values.COMPARE_IGNORE_ANTI_ALIASING
+    this.COMPARE_MAX_CHANGED_PERCENT = values.COMPARE_MAX_CHANGED_PERCENT
+    this.PROFILES_FILE = values.PROFILES_FILE
+    this.PROFILES = Object.freeze([...values.PROFILES])
+    this.SITEMAP_FILE = values.SITEMAP_FILE
+    this.SITEMAP_INCLUDE_PATTERNS = Object.freeze([...values.SITEMAP_INCLUDE_PATTERNS])
+    this.SITEMAP_EXCLUDE_PATTERNS = Object.freeze([...values.SITEMAP_EXCLUDE_PATTERNS])
+    this.SITEMAP_LASTMOD_SINCE = values.SITEMAP_LASTMOD_SINCE
+    this.CRAWL_ENABLED = values.CRAWL_ENABLED
+    this.CRAWL_MAX_DEPTH = values.CRAWL_MAX_DEPTH
+    this.CRAWL_MAX_PAGES = values.CRAWL_MAX_PAGES
+    this.CRAWL_INCLUDE_PATTERNS = Object.freeze([...values.CRAWL_INCLUDE_PATTERNS])
+    this.CRAWL_EXCLUDE_PATTERNS = Object.freeze([...values.CRAWL_EXCLUDE_PATTERNS])
+    this.CRAWL_TRACKING_PARAMS = Object.freeze([...values.CRAWL_TRACKING_PARAMS])
+    this.CAPTURE_CONCURRENCY = values.CAPTURE_CONCURRENCY
+    this.CAPTURE_HOST_CONCURRENCY = values.CAPTURE_HOST_CONCURRENCY
+    this.CAPTURE_HOST_LIMITS = Object.freeze({ ...values.CAPTURE_HOST_LIMITS })
+    this.RESUME_RUN_FOLDER = values.RESUME_RUN_FOLDER
+    this.RETRY_FAILURES_ONLY = values.RETRY_FAILURES_ONLY
+    this.ARCHIVE_FORMAT = values.ARCHIVE_FORMAT
+    this.ARCHIVE_RESOURCE_TIMEOUT_MS = values.ARCHIVE_RESOURCE_TIMEOUT_MS
+    this.WARC_ENABLED = values.WARC_ENABLED
+    this.HAR_ENABLED = values.HAR_ENABLED
+    this.HAR_CONTENT = values.HAR_CONTENT
+    this.HAR_URL_FILTER = values.HAR_URL_FILTER
+    this.INTERACTION_STEPS_FILE = values.INTERACTION_STEPS_FILE
+    this.INTERACTION_STEP_TIMEOUT_MS = values.INTERACTION_STEP_TIMEOUT_MS
+    this.AUTO_SCROLL_ENABLED = values.AUTO_SCROLL_ENABLED
+    this.AUTO_SCROLL_MAX_HEIGHT_PX = values.AUTO_SCROLL_MAX_HEIGHT_PX
+    this.AUTO_SCROLL_TIMEOUT_MS = values.AUTO_SCROLL_TIMEOUT_MS
+    this.AUTO_SCROLL_STEP_DELAY_MS = values.AUTO_SCROLL_STEP_DELAY_MS
+    this.AUTO_SCROLL_IMAGE_TIMEOUT_MS = values.AUTO_SCROLL_IMAGE_TIMEOUT_MS
+    this.MASK_HIDE_SELECTORS = Object.freeze([...values.MASK_HIDE_SELECTORS])
+    this.MASK_COLLAPSE_SELECTORS = Object.freeze([...values.MASK_COLLAPSE_SELECTORS])
+    this.MASK_BOX_SELECTORS = Object.freeze([...values.MASK_BOX_SELECTORS])
+    this.MASK_REMOVE_SELECTORS = Object.freeze([...values.MASK_REMOVE_SELECTORS])
+    this.MASK_COLOR = values.MASK_COLOR
+    this.CUSTOM_CSS_FILE = values.CUSTOM_CSS_FILE
+    this.AUTH_FILE = values.AUTH_FILE
+    this.AUTH_STORAGE_STATE_FILE = values.AUTH_STORAGE_STATE_FILE
+    this.PERFORMANCE_METRICS_ENABLED = values.PERFORMANCE_METRICS_ENABLED
+    this.METADATA_ENABLED = values.METADATA_ENABLED
+    this.CONSOLE_CAPTURE_ENABLED = values.CONSOLE_CAPTURE_ENABLED
+    this.FAIL_ON_PAGE_ERRORS = values.FAIL_ON_PAGE_ERRORS
+    this.A11Y_ENABLED = values.A11Y_ENABLED
+    this.A11Y_RULE_TAGS = Object.freeze([...values.A11Y_RULE_TAGS])
+    this.A11Y_FAIL_ON_IMPACT = values.A11Y_FAIL_ON_IMPACT
+    this.GALLERY_ENABLED = values.GALLERY_ENABLED
+    this.PDF_ENABLED = values.PDF_ENABLED
+    this.PDF_FORMAT = values.PDF_FORMAT
+    this.PDF_MARGIN = Object.freeze({ ...values.PDF_MARGIN })
+    this.PDF_PRINT_BACKGROUND = values.PDF_PRINT_BACKGROUND
+    this.PDF_MEDIA = values.PDF_MEDIA
+    this.PDF_HEADER_FOOTER_ENABLED = values.PDF_HEADER_FOOTER_ENABLED
+    this.PDF_HEADER_TEMPLATE = values.PDF_HEADER_TEMPLATE
+    this.PDF_FOOTER_TEMPLATE = values.PDF_FOOTER_TEMPLATE
+    this.CAPTURE_MAX_ATTEMPTS = values.CAPTURE_MAX_ATTEMPTS
+    this.CAPTURE_RETRY_BASE_DELAY_MS = values.CAPTURE_RETRY_BASE_DELAY_MS
+    this.CAPTURE_RETRY_MAX_DELAY_MS = values.CAPTURE_RETRY_MAX_DELAY_MS
+    this.CAPTURE_RETRY_ON = Object.freeze([...values.CAPTURE_RETRY_ON])
   }
 
   public static load(): RuntimeConfiguration {
     if (!RuntimeConfiguration.instance) {
-      const values = configurationSchema.parse(Bun.env)
+      const values = configurationSchema.parse({
+        ...Bun.env,
+        ...ConfigurationOverrides.getInstance().toRecord(),
+      })
       RuntimeConfiguration.instance = new RuntimeConfiguration(values)
     }
     return RuntimeConfiguration.instance
@@ -0,0 +1,13 @@
+import type { CliCommand } from "./cliCommand"
+import { config } from "./config"
+
+export class ConfigPrintCommand implements CliCommand {
+  async run(args: ReadonlyArray<string>): Promise<void> {
+    if (args.length > 0) {
+      throw new Error("Usage: bun run index.ts config print")
+    }
+
+    // Printed to stdout directly so the output stays machine-readable JSON.
+    process.stdout.write(`${JSON.stringify(config, null, 2)}\n`)
+  }
+}
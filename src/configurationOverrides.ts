@@ -0,0 +1,25 @@
+/**
+ * Holds configuration values supplied on the command line. They are merged over `Bun.env`
+ * when `config.ts` is first evaluated, so they must be set before that module is imported.
+ */
+export class ConfigurationOverrides {
+  private static instance: ConfigurationOverrides | null = null
+  private readonly values = new Map<string, string>()
+
+  private constructor() {}
+
+  static getInstance(): ConfigurationOverrides {
+    if (ConfigurationOverrides.instance === null) {
+      ConfigurationOverrides.instance = new ConfigurationOverrides()
+    }
+    return ConfigurationOverrides.instance
+  }
+
+  set(key: string, value: string): void {
+    this.values.set(key, value)
+  }
+
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(this.values)
+  }
+}
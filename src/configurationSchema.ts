@@ -0,0 +1,509 @@
+import { z } from "zod"
+import { ACCESSIBILITY_IMPACTS } from "./accessibilityAuditor"
+import { BROWSER_ENGINES, type BrowserEngine } from "./browserEngine"
+import { FAILURE_CATEGORIES, type FailureCategory } from "./failureCategory"
+import { HAR_CONTENT_MODES } from "./deviceContextFactory"
+import { ARCHIVE_FORMATS } from "./pageArchiver"
+import { NETWORK_THROTTLING_PRESETS, type NetworkThrottlingPreset } from "./pageThrottler"
+import { PDF_MEDIA_TYPES, PDF_PAPER_FORMATS } from "./pdfRenderer"
+import { RESOURCE_TYPES, type ResourceType } from "./routeRule"
+
+const A11Y_FAIL_THRESHOLDS = ["none", ...ACCESSIBILITY_IMPACTS] as const
+
+export type ColorScheme = "dark" | "light" | "no-preference" | null | undefined
+
+const stringFromEnv = (defaultValue: string) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => (value === undefined || value.length === 0 ? defaultValue : value))
+
+const numberFromEnv = (defaultValue: number) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (value === undefined || value.length === 0) {
+        return defaultValue
+      }
+      const parsed = Number(value)
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`Expected a number but received "${value}"`)
+      }
+      return parsed
+    })
+
+const booleanFromEnv = (defaultValue: boolean) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (value === undefined || value.length === 0) {
+        return defaultValue
+      }
+      if (value === "true") {
+        return true
+      }
+      if (value === "false") {
+        return false
+      }
+      throw new Error(`Expected "true" or "false" but received "${value}"`)
+    })
+
+const stringArrayFromEnv = (defaultValue: string[]) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (value === undefined || value.trim().length === 0) {
+        return [...defaultValue]
+      }
+      return value
+        .split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0)
+    })
+
+const optionalDateFromEnv = () =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (value === undefined || value.trim().length === 0) {
+        return null
+      }
+      const parsed = new Date(value.trim())
+      if (Number.isNaN(parsed.getTime())) {
+        throw new Error(`Expected an ISO 8601 date but received "${value}"`)
+      }
+      return parsed
+    })
+
+const enumFromEnv = <T extends string>(values: ReadonlyArray<T>, defaultValue: T) =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      if (value === undefined || value.trim().length === 0) {
+        return defaultValue
+      }
+      const normalized = value.trim().toLowerCase()
+      const match = values.find((candidate) => candidate.toLowerCase() === normalized)
+      if (match === undefined) {
+        throw new Error(
+          `Expected one of ${values.map((candidate) => `"${candidate}"`).join(", ")} but received "${value}"`,
+        )
+      }
+      return match
+    })
+
+// CSS-style shorthand: one value for all sides, or top/right/bottom/left like the margin property.
+const marginFromEnv = (defaultValue: string) =>
+  stringFromEnv(defaultValue).transform((value) => {
+    const parts = value.trim().split(/\s+/)
+    const invalid = parts.find((part) => !/^\d+(\.\d+)?(px|in|cm|mm)?$/.test(part))
+    if (parts.length > 4 || invalid !== undefined) {
+      throw new Error(
+        `Expected one to four lengths such as "10mm" or "1cm 2cm" but received "${value}"`,
+      )
+    }
+    const [top = "0", right = top, bottom = top, left = right] = parts
+    return { top, right, bottom, left }
+  })
+
+const cpuThrottlingRateFromEnv = () =>
+  numberFromEnv(1).transform((value) => {
+    if (value < 1) {
+      throw new Error(`Expected a CPU slowdown factor of 1 or more but received ${value}`)
+    }
+    return value
+  })
+
+const networkThrottlingFromEnv = () =>
+  enumFromEnv(["none", ...NETWORK_THROTTLING_PRESETS], "none").transform(
+    (value): NetworkThrottlingPreset | null => (value === "none" ? null : value),
+  )
+
+const failureCategoriesFromEnv = (defaultValue: FailureCategory[]) =>
+  stringArrayFromEnv(defaultValue).transform((values) => {
+    const known = new Set<string>(FAILURE_CATEGORIES)
+    const unknown = values.filter((value) => !known.has(value))
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown failure categor${unknown.length === 1 ? "y" : "ies"} ${unknown.join(", ")}; expected any of ${FAILURE_CATEGORIES.join(", ")}`,
+      )
+    }
+    return values as FailureCategory[]
+  })
+
+const enumListFromEnv = <T extends string>(values: ReadonlyArray<T>, noun: string) =>
+  stringArrayFromEnv([]).transform((items) => {
+    const known = new Set<string>(values)
+    const unknown = items.filter((item) => !known.has(item))
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown ${noun}${unknown.length === 1 ? "" : "s"} ${unknown.join(", ")}; expected any of ${values.join(", ")}`,
+      )
+    }
+    return items as T[]
+  })
+
+const hostLimitsFromEnv = () =>
+  z
+    .string()
+    .optional()
+    .transform((value) => {
+      const limits: Record<string, number> = {}
+      if (value === undefined || value.trim().length === 0) {
+        return limits
+      }
+      for (const entry of value.split(",")) {
+        const trimmed = entry.trim()
+        if (trimmed.length === 0) {
+          continue
+        }
+        const [host = "", limit = ""] = trimmed.split("=").map((part) => part.trim())
+        const parsed = Number(limit)
+        if (host.length === 0 || !Number.isInteger(parsed) || parsed < 1) {
+          throw new Error(
+            `Expected "host=limit" with a positive integer limit but received "${trimmed}"`,
+          )
+        }
+        limits[host.toLowerCase()] = parsed
+      }
+      return limits
+    })
+
+const colorSchemeFromEnv = (defaultValue: ColorScheme) =>
+  z
+    .string()
+    .optional()
+    .transform<ColorScheme>((value) => {
+      if (value === undefined || value.trim().length === 0) {
+        return defaultValue
+      }
+      const normalized = value.trim().toLowerCase()
+      if (normalized === "null") {
+        return null
+      }
+      if (normalized === "undefined") {
+        return undefined
+      }
+      if (normalized === "dark" || normalized === "light" || normalized === "no-preference") {
+        return normalized as ColorScheme
+      }
+      throw new Error(
+        `Expected one of "dark", "light", "no-preference", "null" or "undefined" but received "${value}"`,
+      )
+    })
+
+export const configurationSchema = z.object({
+  DEFAULT_OUTPUT_DIR: stringFromEnv("output").describe(
+    "Root directory for timestamped run folders.",
+  ),
+  LINKS_FILE: stringFromEnv("links.txt").describe(
+    "URL list (one per line) or a .json/.yaml/.yml capture plan.",
+  ),
+  PARALLEL_CAPTURE_ENABLED: booleanFromEnv(true).describe(
+    "Capture links and their variants concurrently.",
+  ),
+  DESKTOP_VIEWPORT_WIDTH: numberFromEnv(1280).describe("Desktop viewport width in pixels."),
+  DESKTOP_VIEWPORT_HEIGHT: numberFromEnv(720).describe("Desktop viewport height in pixels."),
+  DESKTOP_DEVICE_DESCRIPTOR: stringFromEnv("Desktop Chrome").describe(
+    "Playwright device preset for the desktop profile.",
+  ),
+  DESKTOP_SCREEN_WIDTH: numberFromEnv(1920).describe("Desktop window.screen width in pixels."),
+  DESKTOP_SCREEN_HEIGHT: numberFromEnv(1080).describe("Desktop window.screen height in pixels."),
+  DESKTOP_DEVICE_SCALE_FACTOR: numberFromEnv(1.5).describe("Desktop device pixel ratio."),
+  DESKTOP_LOCALE: stringFromEnv("en-US").describe("Desktop locale."),
+  DESKTOP_TIMEZONE_ID: stringFromEnv("Europe/Istanbul").describe(
+    "Desktop IANA timezone identifier.",
+  ),
+  DESKTOP_COLOR_SCHEME: colorSchemeFromEnv("dark").describe(
+    "Desktop prefers-color-scheme emulation (dark, light, no-preference, null, undefined).",
+  ),
+  DESKTOP_CPU_THROTTLING_RATE: cpuThrottlingRateFromEnv().describe(
+    "Desktop CPU slowdown factor (Chromium only); 1 runs at full speed.",
+  ),
+  DESKTOP_NETWORK_THROTTLING: networkThrottlingFromEnv().describe(
+    "Desktop network preset (Chromium only): none, slow-3g, fast-3g, slow-4g, fast-4g.",
+  ),
+  MOBILE_VIEWPORT_WIDTH: numberFromEnv(390).describe("Mobile viewport width in pixels."),
+  MOBILE_VIEWPORT_HEIGHT: numberFromEnv(844).describe("Mobile viewport height in pixels."),
+  MOBILE_DEVICE_DESCRIPTOR: stringFromEnv("Pixel 5").describe(
+    "Playwright device preset for the mobile profile.",
+  ),
+  MOBILE_SCREEN_WIDTH: numberFromEnv(1080).describe("Mobile window.screen width in pixels."),
+  MOBILE_SCREEN_HEIGHT: numberFromEnv(2340).describe("Mobile window.screen height in pixels."),
+  MOBILE_DEVICE_SCALE_FACTOR: numberFromEnv(3).describe("Mobile device pixel ratio."),
+  MOBILE_LOCALE: stringFromEnv("en-US").describe("Mobile locale."),
+  MOBILE_TIMEZONE_ID: stringFromEnv("America/Los_Angeles").describe(
+    "Mobile IANA timezone identifier.",
+  ),
+  MOBILE_COLOR_SCHEME: colorSchemeFromEnv("dark").describe(
+    "Mobile prefers-color-scheme emulation (dark, light, no-preference, null, undefined).",
+  ),
+  MOBILE_CPU_THROTTLING_RATE: cpuThrottlingRateFromEnv().describe(
+    "Mobile CPU slowdown factor (Chromium only); 1 runs at full speed.",
+  ),
+  MOBILE_NETWORK_THROTTLING: networkThrottlingFromEnv().describe(
+    "Mobile network preset (Chromium only): none, slow-3g, fast-3g, slow-4g, fast-4g.",
+  ),
+  TABLET_VIEWPORT_WIDTH: numberFromEnv(1024).describe("Tablet viewport width in pixels."),
+  TABLET_VIEWPORT_HEIGHT: numberFromEnv(1366).describe("Tablet viewport height in pixels."),
+  TABLET_DEVICE_DESCRIPTOR: stringFromEnv("iPad (gen 7)").describe(
+    "Playwright device preset for the tablet profile.",
+  ),
+  TABLET_SCREEN_WIDTH: numberFromEnv(1620).describe("Tablet window.screen width in pixels."),
+  TABLET_SCREEN_HEIGHT: numberFromEnv(2160).describe("Tablet window.screen height in pixels."),
+  TABLET_DEVICE_SCALE_FACTOR: numberFromEnv(2).describe("Tablet device pixel ratio."),
+  TABLET_LOCALE: stringFromEnv("en-US").describe("Tablet locale."),
+  TABLET_TIMEZONE_ID: stringFromEnv("America/Los_Angeles").describe(
+    "Tablet IANA timezone identifier.",
+  ),
+  TABLET_COLOR_SCHEME: colorSchemeFromEnv("dark").describe(
+    "Tablet prefers-color-scheme emulation (dark, light, no-preference, null, undefined).",
+  ),
+  TABLET_CPU_THROTTLING_RATE: cpuThrottlingRateFromEnv().describe(
+    "Tablet CPU slowdown factor (Chromium only); 1 runs at full speed.",
+  ),
+  TABLET_NETWORK_THROTTLING: networkThrottlingFromEnv().describe(
+    "Tablet network preset (Chromium only): none, slow-3g, fast-3g, slow-4g, fast-4g.",
+  ),
+  PRIMARY_NAVIGATION_TIMEOUT_MS: numberFromEnv(45000).describe(
+    "Timeout of the networkidle navigation attempt.",
+  ),
+  FALLBACK_NAVIGATION_TIMEOUT_MS: numberFromEnv(60000).describe(
+    "Timeout of the domcontentloaded fallback navigation.",
+  ),
+  POST_NAVIGATION_IDLE_MS: numberFromEnv(1000).describe(
+    "Delay after navigation before stability checks run.",
+  ),
+  CAPTURE_STABILIZATION_DELAY_MS: numberFromEnv(2000).describe(
+    "Additional wait before screenshots are taken.",
+  ),
+  CONTENT_READY_TIMEOUT_MS: numberFromEnv(10000).describe(
+    "Maximum wait for meaningful DOM content.",
+  ),
+  BROWSER_ENGINES: enumListFromEnv<BrowserEngine>(BROWSER_ENGINES, "browser engine").describe(
+    "Comma-separated engines (chromium, firefox, webkit) every profile is captured in; empty lets each profile decide.",
+  ),
+  CHROMIUM_HOST_RESOLVER_RULES: stringArrayFromEnv([]).describe(
+    "Comma-separated Chromium host resolver rules.",
+  ),
+  CHROMIUM_USE_CUSTOM_DNS: booleanFromEnv(false).describe(
+    "Route Chromium DNS lookups through CHROMIUM_DNS_SERVERS.",
+  ),
+  CHROMIUM_DNS_SERVERS: stringArrayFromEnv(["94.140.14.14", "94.140.14.15"]).describe(
+    "Comma-separated DNS servers used when custom DNS is enabled.",
+  ),
+  BLOCKED_DOMAINS: stringArrayFromEnv([]).describe(
+    "Comma-separated domains whose requests are aborted, subdomains included.",
+  ),
+  BLOCKED_RESOURCE_TYPES: enumListFromEnv<ResourceType>(RESOURCE_TYPES, "resource type").describe(
+    "Comma-separated resource types (media, font, websocket, ...) whose requests are aborted.",
+  ),
+  ROUTE_RULES_FILE: stringFromEnv("").describe(
+    "JSON/YAML file with request rules that block, rewrite headers, or serve local fixtures.",
+  ),
+  DESKTOP_USER_AGENT: stringFromEnv(
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+  ).describe("User agent of the desktop profile when no descriptor applies."),
+  DEFAULT_MOBILE_USER_AGENT: stringFromEnv(
+    "Mozilla/5.0 (Linux; Android 11; Pixel 5) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/94.0.4606.71 Mobile Safari/537.36",
+  ).describe("User agent of the mobile profile when no descriptor applies."),
+  DEFAULT_TABLET_USER_AGENT: stringFromEnv(
+    "Mozilla/5.0 (iPad; CPU OS 14_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/14.0 Mobile/15E148 Safari/604.1",
+  ).describe("User agent of the tablet profile when no descriptor applies."),
+  COMPARE_PIXEL_THRESHOLD: numberFromEnv(0.1).describe(
+    "Per-pixel colour distance (0-1) tolerated by compare.",
+  ),
+  COMPARE_IGNORE_ANTI_ALIASING: booleanFromEnv(true).describe(
+    "Ignore anti-aliasing differences in compare.",
+  ),
+  COMPARE_MAX_CHANGED_PERCENT: numberFromEnv(0.1).describe(
+    "Highest changed-pixel percentage per variant before compare fails.",
+  ),
+  PROFILES_FILE: stringFromEnv("").describe(
+    "JSON device profile definitions; empty uses desktop/tablet/mobile.",
+  ),
+  PROFILES: stringArrayFromEnv([]).describe(
+    "Comma-separated device profile names to capture; empty captures all.",
+  ),
+  SITEMAP_FILE: stringFromEnv("").describe(
+    "Local sitemap or sitemap index used instead of LINKS_FILE.",
+  ),
+  SITEMAP_INCLUDE_PATTERNS: stringArrayFromEnv([]).describe(
+    "Comma-separated glob or /regex/ patterns a sitemap URL must match.",
+  ),
+  SITEMAP_EXCLUDE_PATTERNS: stringArrayFromEnv([]).describe(
+    "Comma-separated glob or /regex/ patterns that drop sitemap URLs.",
+  ),
+  SITEMAP_LASTMOD_SINCE: optionalDateFromEnv().describe(
+    "ISO 8601 date; sitemap entries with an older lastmod are skipped.",
+  ),
+  CRAWL_ENABLED: booleanFromEnv(false).describe(
+    "Discover and capture same-origin links of captured pages.",
+  ),
+  CRAWL_MAX_DEPTH: numberFromEnv(1).describe("Maximum link hops away from the seed URLs."),
+  CRAWL_MAX_PAGES: numberFromEnv(50).describe(
+    "Maximum number of pages captured while crawling, seeds included.",
+  ),
+  CRAWL_INCLUDE_PATTERNS: stringArrayFromEnv([]).describe(
+    "Comma-separated glob or /regex/ patterns a discovered URL must match.",
+  ),
+  CRAWL_EXCLUDE_PATTERNS: stringArrayFromEnv([]).describe(
+    "Comma-separated glob or /regex/ patterns that skip discovered URLs.",
+  ),
+  CRAWL_TRACKING_PARAMS: stringArrayFromEnv([
+    "utm_*",
+    "gclid",
+    "fbclid",
+    "msclkid",
+    "mc_cid",
+    "mc_eid",
+    "_ga",
+  ]).describe("Comma-separated query parameters removed before de-duplication (prefix* allowed)."),
+  CAPTURE_CONCURRENCY: numberFromEnv(6).describe(
+    "Maximum number of browser contexts (one per link variant) open at once; 0 is unlimited.",
+  ),
+  CAPTURE_HOST_CONCURRENCY: numberFromEnv(0).describe(
+    "Maximum number of browser contexts open at once against a single host; 0 is unlimited.",
+  ),
+  CAPTURE_HOST_LIMITS: hostLimitsFromEnv().describe(
+    "Comma-separated host=limit pairs overriding CAPTURE_HOST_CONCURRENCY for specific hosts.",
+  ),
+  RESUME_RUN_FOLDER: stringFromEnv("").describe(
+    "Existing run folder to complete instead of starting a new timestamped one.",
+  ),
+  RETRY_FAILURES_ONLY: booleanFromEnv(false).describe(
+    "When resuming, recapture only the variants the run's manifest records as failed.",
+  ),
+  ARCHIVE_FORMAT: enumFromEnv(ARCHIVE_FORMATS, "none").describe(
+    "Self-contained archive written per variant: none, mhtml (Chromium) or single-file HTML.",
+  ),
+  ARCHIVE_RESOURCE_TIMEOUT_MS: numberFromEnv(10000).describe(
+    "Timeout for fetching each stylesheet, image or font inlined into a single-file archive.",
+  ),
+  WARC_ENABLED: booleanFromEnv(false).describe(
+    "Record every HTTP request and response of a variant into page.<profile>.warc.gz.",
+  ),
+  HAR_ENABLED: booleanFromEnv(false).describe(
+    "Record each variant's network activity into page.<profile>.har.",
+  ),
+  HAR_CONTENT: enumFromEnv(HAR_CONTENT_MODES, "omit").describe(
+    "Response bodies in the HAR: omit, embed (base64 in the file) or attach (side files).",
+  ),
+  HAR_URL_FILTER: stringFromEnv("").describe(
+    "Glob or /regex/ pattern; only matching requests are recorded in the HAR.",
+  ),
+  INTERACTION_STEPS_FILE: stringFromEnv("").describe(
+    "JSON or YAML file with interaction steps run on every page before the screenshot.",
+  ),
+  INTERACTION_STEP_TIMEOUT_MS: numberFromEnv(10000).describe(
+    "Timeout of an interaction step that sets no timeoutMs of its own.",
+  ),
+  AUTO_SCROLL_ENABLED: booleanFromEnv(false).describe(
+    "Scroll every page to the bottom before the screenshot so lazy-loaded content renders.",
+  ),
+  AUTO_SCROLL_MAX_HEIGHT_PX: numberFromEnv(30000).describe(
+    "Stop auto-scrolling once this many CSS pixels of the page have been scrolled into view.",
+  ),
+  AUTO_SCROLL_TIMEOUT_MS: numberFromEnv(20000).describe(
+    "Stop auto-scrolling after this long, even if the page keeps growing.",
+  ),
+  AUTO_SCROLL_STEP_DELAY_MS: numberFromEnv(250).describe(
+    "Pause after each viewport-sized scroll step.",
+  ),
+  AUTO_SCROLL_IMAGE_TIMEOUT_MS: numberFromEnv(5000).describe(
+    "How long to wait for images still loading after auto-scrolling.",
+  ),
+  MASK_HIDE_SELECTORS: stringArrayFromEnv([]).describe(
+    "Comma-separated selectors hidden with visibility: hidden before the screenshot.",
+  ),
+  MASK_COLLAPSE_SELECTORS: stringArrayFromEnv([]).describe(
+    "Comma-separated selectors hidden with display: none before the screenshot.",
+  ),
+  MASK_BOX_SELECTORS: stringArrayFromEnv([]).describe(
+    "Comma-separated selectors covered with a solid box in the screenshot.",
+  ),
+  MASK_REMOVE_SELECTORS: stringArrayFromEnv([]).describe(
+    "Comma-separated selectors removed from the DOM before the screenshot.",
+  ),
+  MASK_COLOR: stringFromEnv("#FF00FF").describe(
+    "CSS color of the boxes painted over masked elements.",
+  ),
+  CUSTOM_CSS_FILE: stringFromEnv("").describe(
+    "Stylesheet injected into every page before the screenshot.",
+  ),
+  AUTH_FILE: stringFromEnv("").describe(
+    "JSON or YAML file with cookies, headers, and basic auth per host plus an optional login script.",
+  ),
+  AUTH_STORAGE_STATE_FILE: stringFromEnv("").describe(
+    "Playwright storage state file loaded into every browser context.",
+  ),
+  PERFORMANCE_METRICS_ENABLED: booleanFromEnv(true).describe(
+    "Record load, paint, and layout shift metrics per variant into page.<profile>.perf.json.",
+  ),
+  METADATA_ENABLED: booleanFromEnv(true).describe(
+    "Extract title, meta tags, structured data, and headings per variant into page.<profile>.meta.json.",
+  ),
+  CONSOLE_CAPTURE_ENABLED: booleanFromEnv(true).describe(
+    "Write the page's console messages, errors, and failed requests to page.<profile>.console.json.",
+  ),
+  FAIL_ON_PAGE_ERRORS: booleanFromEnv(false).describe(
+    "Fail a variant when the page throws uncaught JavaScript errors.",
+  ),
+  A11Y_ENABLED: booleanFromEnv(false).describe(
+    "Save each variant's ARIA snapshot and audit it with the bundled axe-core.",
+  ),
+  A11Y_RULE_TAGS: stringArrayFromEnv([]).describe(
+    "Comma-separated axe rule tags to audit (wcag2a, wcag2aa, best-practice, ...); empty runs the default rules.",
+  ),
+  A11Y_FAIL_ON_IMPACT: enumFromEnv(A11Y_FAIL_THRESHOLDS, "none").describe(
+    "Fail a variant with accessibility violations of this impact or worse: none, minor, moderate, serious, critical.",
+  ),
+  GALLERY_ENABLED: booleanFromEnv(true).describe(
+    "Write an index.html gallery of all screenshots into every run folder.",
+  ),
+  PDF_ENABLED: booleanFromEnv(false).describe(
+    "Print each variant to page.<profile>.pdf (Chromium only).",
+  ),
+  PDF_FORMAT: enumFromEnv(PDF_PAPER_FORMATS, "A4").describe(
+    `Paper format of PDF output (${PDF_PAPER_FORMATS.join(", ")}).`,
+  ),
+  PDF_MARGIN: marginFromEnv("10mm").describe(
+    "PDF margins as one to four CSS lengths (top right bottom left).",
+  ),
+  PDF_PRINT_BACKGROUND: booleanFromEnv(true).describe(
+    "Include background colors and images in PDF output.",
+  ),
+  PDF_MEDIA: enumFromEnv(PDF_MEDIA_TYPES, "print").describe(
+    "CSS media type emulated while printing: print or screen.",
+  ),
+  PDF_HEADER_FOOTER_ENABLED: booleanFromEnv(true).describe(
+    "Print the header and footer templates on every PDF page.",
+  ),
+  PDF_HEADER_TEMPLATE: stringFromEnv(
+    '<div style="font-size:8px;width:100%;padding:0 10mm;">{url}</div>',
+  ).describe("HTML header of PDF pages; {url} and {timestamp} are replaced."),
+  PDF_FOOTER_TEMPLATE: stringFromEnv(
+    '<div style="font-size:8px;width:100%;padding:0 10mm;display:flex;justify-content:space-between;"><span>Captured {timestamp}</span><span><span class="pageNumber"></span>/<span class="totalPages"></span></span></div>',
+  ).describe("HTML footer of PDF pages; {url} and {timestamp} are replaced."),
+  CAPTURE_MAX_ATTEMPTS: numberFromEnv(3).describe(
+    "Attempts per variant, first attempt included; 1 disables retries.",
+  ),
+  CAPTURE_RETRY_BASE_DELAY_MS: numberFromEnv(1000).describe(
+    "Delay before the first retry; doubled after every further failed attempt.",
+  ),
+  CAPTURE_RETRY_MAX_DELAY_MS: numberFromEnv(30000).describe("Upper bound for the retry delay."),
+  CAPTURE_RETRY_ON: failureCategoriesFromEnv([
+    "network",
+    "http-5xx",
+    "navigation-timeout",
+  ]).describe(
+    `Comma-separated failure categories that are retried (${FAILURE_CATEGORIES.join(", ")}).`,
+  ),
+})
+
+export type ConfigurationShape = z.infer<typeof configurationSchema>
@@ -0,0 +1,99 @@
+export interface ContextWorkerPoolOptions {
+  /** Maximum number of jobs running at once; 0 or less means unlimited. */
+  maxConcurrency: number
+  /** Default maximum number of jobs running at once per host; 0 or less means unlimited. */
+  perHostConcurrency: number
+  /** Per-host limits that take precedence over `perHostConcurrency`, keyed by hostname. */
+  hostLimits: Readonly<Record<string, number>>
+}
+
+interface QueuedJob {
+  host: string
+  label: string
+  start: () => Promise<void>
+}
+
+/**
+ * Runs jobs that each hold one browser context, keeping at most `maxConcurrency` of them
+ * open. Jobs start in submission order; a job whose host is at its limit is passed over only
+ * until a slot for that host frees up.
+ */
+export class ContextWorkerPool {
+  private readonly queue: QueuedJob[] = []
+  private readonly runningByHost = new Map<string, number>()
+  private running = 0
+  private done = 0
+
+  constructor(private readonly options: ContextWorkerPoolOptions) {}
+
+  submit<T>(url: string, label: string, job: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        host: ContextWorkerPool.hostOf(url),
+        label,
+        start: () => job().then(resolve, reject),
+      })
+      this.dispatch()
+    })
+  }
+
+  private dispatch() {
+    while (this.hasFreeSlot()) {
+      const index = this.queue.findIndex((job) => this.hasFreeHostSlot(job.host))
+
+      if (index < 0) {
+        return
+      }
+
+      const [job] = this.queue.splice(index, 1)
+
+      if (job) {
+        this.start(job)
+      }
+    }
+  }
+
+  private start(job: QueuedJob) {
+    this.running++
+    this.runningByHost.set(job.host, (this.runningByHost.get(job.host) ?? 0) + 1)
+    this.logProgress(`Started ${job.label}`)
+
+    job.start().finally(() => {
+      this.running--
+      this.done++
+      const remaining = (this.runningByHost.get(job.host) ?? 1) - 1
+
+      if (remaining > 0) {
+        this.runningByHost.set(job.host, remaining)
+      } else {
+        this.runningByHost.delete(job.host)
+      }
+
+      this.logProgress(`Finished ${job.label}`)
+      this.dispatch()
+    })
+  }
+
+  private hasFreeSlot(): boolean {
+    return this.options.maxConcurrency <= 0 || this.running < this.options.maxConcurrency
+  }
+
+  private hasFreeHostSlot(host: string): boolean {
+    const limit = this.options.hostLimits[host] ?? this.options.perHostConcurrency
+    return limit <= 0 || (this.runningByHost.get(host) ?? 0) < limit
+  }
+
+  private logProgress(message: string) {
+    console.log(
+      `[Pool] ${message}. Queued: ${this.queue.length}, running: ${this.running}, done: ${this.done}.`,
+    )
+  }
+
+  private static hostOf(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase()
+    } catch {
+      return ""
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { type CaptureTarget, createCaptureTarget } from "./captureTarget"
+import type { UrlCanonicalizer } from "./urlCanonicalizer"
+import type { UrlPatternMatcher } from "./urlPatternMatcher"
+
+export interface CrawlFrontierOptions {
+  maxDepth: number
+  maxPages: number
+  canonicalizer: UrlCanonicalizer
+  matcher: UrlPatternMatcher
+}
+
+export class CrawlFrontier {
+  private readonly seen = new Set<string>()
+  private readonly pending: CaptureTarget[] = []
+  private limitWarningEmitted = false
+
+  constructor(private readonly options: CrawlFrontierOptions) {}
+
+  /**
+   * Registers the seed targets. Seeds are always captured, even when they exceed the page
+   * limit, but duplicates (after canonicalization) are dropped. Seeds keep a depth they already
+   * carry, which is the case for crawled pages restored from a resumed run.
+   */
+  seed(targets: ReadonlyArray<CaptureTarget>): CaptureTarget[] {
+    const accepted: CaptureTarget[] = []
+
+    for (const target of targets) {
+      const canonical = this.options.canonicalizer.canonicalize(target.url)
+
+      if (canonical !== null && this.seen.has(canonical)) {
+        console.log(`[Crawl] Skipping duplicate seed ${target.url}.`)
+        continue
+      }
+
+      if (canonical !== null) {
+        this.seen.add(canonical)
+      }
+
+      accepted.push({ ...target, depth: target.depth ?? 0 })
+    }
+
+    return accepted
+  }
+
+  /**
+   * Enqueues the same-origin links found on a captured page. The origin is taken from
+   * `finalUrl`, where the page ended up after redirects, so a seed that redirects to `www.` or
+   * HTTPS still has its links crawled; `discoveredFrom` keeps the requested URL.
+   */
+  offer(
+    parent: CaptureTarget,
+    discoveredUrls: ReadonlyArray<string>,
+    finalUrl: string = parent.url,
+  ): void {
+    const depth = (parent.depth ?? 0) + 1
+
+    if (depth > this.options.maxDepth) {
+      return
+    }
+
+    const parentOrigin = new URL(finalUrl).origin
+    let enqueued = 0
+
+    for (const discoveredUrl of discoveredUrls) {
+      const canonical = this.options.canonicalizer.canonicalize(discoveredUrl)
+
+      if (
+        canonical === null ||
+        this.seen.has(canonical) ||
+        new URL(canonical).origin !== parentOrigin ||
+        !this.options.matcher.matches(canonical)
+      ) {
+        continue
+      }
+
+      if (this.seen.size >= this.options.maxPages) {
+        this.emitLimitWarning()
+        break
+      }
+
+      this.seen.add(canonical)
+      this.pending.push({
+        ...createCaptureTarget(canonical),
+        profiles: parent.profiles,
+        discoveredFrom: parent.url,
+        depth,
+      })
+      enqueued++
+    }
+
+    console.log(
+      `[Crawl] Discovered ${discoveredUrls.length} link(s) on ${parent.url}; enqueued ${enqueued} new same-origin page(s) at depth ${depth}.`,
+    )
+  }
+
+  drain(): CaptureTarget[] {
+    return this.pending.splice(0)
+  }
+
+  shouldCollectLinks(target: CaptureTarget): boolean {
+    return (target.depth ?? 0) < this.options.maxDepth && this.seen.size < this.options.maxPages
+  }
+
+  private emitLimitWarning() {
+    if (!this.limitWarningEmitted) {
+      console.warn(
+        `[Crawl] Page limit of ${this.options.maxPages} reached; further discovered links are ignored.`,
+      )
+      this.limitWarningEmitted = true
+    }
+  }
+}
@@ -1,94 +1,86 @@
 import { devices, type BrowserContextOptions } from "playwright"
-import { config } from "./config"
+import { type BrowserEngine, isBrowserEngine } from "./browserEngine"
+import type { DeviceProfile } from "./deviceProfile"
 
 type PlaywrightDeviceDescriptor = (typeof devices)[keyof typeof devices]
-type DeviceKind = "desktop" | "mobile" | "tablet"
-
 type ContextOptions = BrowserContextOptions & {
   screen?: NonNullable<BrowserContextOptions["screen"]>
 }
 
+export const HAR_CONTENT_MODES = ["omit", "embed", "attach"] as const
+
+export type HarContentMode = (typeof HAR_CONTENT_MODES)[number]
+
+export interface HarRecordingOptions {
+  path: string
+  content: HarContentMode
+  /** Glob or `/regex/flags`; only matching requests are recorded. Empty records everything. */
+  urlFilter: string
+}
+
 type DeviceProfileInit = {
   descriptorName: string | undefined
-  type: DeviceKind
+  profileName: string
   fallback: ContextOptions
   overrides: ContextOptions
 }
 
 export class DeviceContextFactory {
-  private desktopWarningEmitted = false
-  private mobileWarningEmitted = false
-  private tabletWarningEmitted = false
-
-  buildDesktopContextOptions(): BrowserContextOptions {
-    return this.buildDeviceProfile({
-      type: "desktop",
-      descriptorName: config.DESKTOP_DEVICE_DESCRIPTOR,
+  private readonly warnedProfiles = new Set<string>()
+  private readonly warnedMobileProfiles = new Set<string>()
+
+  buildContextOptions(
+    profile: DeviceProfile,
+    engine: BrowserEngine,
+    har?: HarRecordingOptions,
+  ): BrowserContextOptions {
+    const defaults = profile.fallback ?? {}
+    const isMobile = profile.isMobile ?? defaults.isMobile ?? false
+
+    // Fields set on the profile itself win over its descriptor; `fallback` values only fill in
+    // when there is no descriptor or it cannot be resolved.
+    const options = this.buildDeviceProfile({
+      profileName: profile.name,
+      descriptorName: profile.descriptor,
       fallback: DeviceContextFactory.withScreen(
         {
-          viewport: config.DESKTOP_VIEWPORT,
-          deviceScaleFactor: config.DESKTOP_DEVICE_SCALE_FACTOR,
-          userAgent: config.DESKTOP_USER_AGENT,
-          isMobile: false,
-          hasTouch: false,
+          viewport: profile.viewport ?? defaults.viewport,
+          deviceScaleFactor: profile.deviceScaleFactor ?? defaults.deviceScaleFactor ?? 1,
+          userAgent: profile.userAgent ?? defaults.userAgent,
+          isMobile,
+          hasTouch: profile.hasTouch ?? defaults.hasTouch ?? isMobile,
         },
-        config.DESKTOP_SCREEN,
+        profile.screen ?? defaults.screen,
       ),
-      overrides: {
-        locale: config.DESKTOP_LOCALE,
-        timezoneId: config.DESKTOP_TIMEZONE_ID,
-        colorScheme: config.DESKTOP_COLOR_SCHEME,
-      },
-    })
-  }
-
-  buildMobileContextOptions(): BrowserContextOptions {
-    return this.buildDeviceProfile({
-      type: "mobile",
-      descriptorName: config.MOBILE_DEVICE_DESCRIPTOR,
-      fallback: DeviceContextFactory.withScreen(
+      overrides: DeviceContextFactory.withScreen(
         {
-          viewport: config.MOBILE_VIEWPORT,
-          isMobile: true,
-          hasTouch: true,
-          deviceScaleFactor: config.MOBILE_DEVICE_SCALE_FACTOR,
-          userAgent: config.DEFAULT_MOBILE_USER_AGENT,
+          viewport: profile.viewport,
+          deviceScaleFactor: profile.deviceScaleFactor,
+          userAgent: profile.userAgent,
+          isMobile: profile.isMobile,
+          hasTouch: profile.hasTouch,
+          locale: profile.locale,
+          timezoneId: profile.timezoneId,
+          colorScheme: profile.colorScheme,
         },
-        config.MOBILE_SCREEN,
+        profile.screen,
       ),
-      overrides: {
-        locale: config.MOBILE_LOCALE,
-        timezoneId: config.MOBILE_TIMEZONE_ID,
-        colorScheme: config.MOBILE_COLOR_SCHEME,
-      },
     })
+
+    const supported = this.withoutUnsupportedOptions(options, profile.name, engine)
+    return har ? DeviceContextFactory.withHarRecording(supported, har) : supported
   }
 
-  buildTabletContextOptions(): BrowserContextOptions {
-    return this.buildDeviceProfile({
-      type: "tablet",
-      descriptorName: config.TABLET_DEVICE_DESCRIPTOR,
-      fallback: DeviceContextFactory.withScreen(
-        {
-          viewport: config.TABLET_VIEWPORT,
-          isMobile: true,
-          hasTouch: true,
-          deviceScaleFactor: config.TABLET_DEVICE_SCALE_FACTOR,
-          userAgent: config.DEFAULT_TABLET_USER_AGENT,
-        },
-        config.TABLET_SCREEN,
-      ),
-      overrides: {
-        locale: config.TABLET_LOCALE,
-        timezoneId: config.TABLET_TIMEZONE_ID,
-        colorScheme: config.TABLET_COLOR_SCHEME,
-      },
-    })
+  /** The engine the profile's Playwright descriptor was made for, such as WebKit for iPhones. */
+  descriptorEngine(profile: DeviceProfile): BrowserEngine | undefined {
+    const descriptor = this.resolveDescriptor(profile.descriptor, profile.name)
+    const engine = descriptor?.defaultBrowserType
+    return isBrowserEngine(engine) ? engine : undefined
   }
 
   private resolveDescriptor(
     descriptorName: string | undefined,
-    type: DeviceKind,
+    profileName: string,
   ): PlaywrightDeviceDescriptor | null {
     const trimmed = descriptorName?.trim()
 
@@ -99,7 +91,7 @@ export class DeviceContextFactory {
     const descriptor = (devices as Record<string, PlaywrightDeviceDescriptor>)[trimmed]
 
     if (!descriptor) {
-      this.emitWarning(type, trimmed)
+      this.emitWarning(profileName, trimmed)
       return null
     }
 
@@ -108,11 +100,11 @@ export class DeviceContextFactory {
 
   private buildDeviceProfile({
     descriptorName,
-    type,
+    profileName,
     fallback,
     overrides,
   }: DeviceProfileInit): ContextOptions {
-    const descriptor = this.resolveDescriptor(descriptorName, type)
+    const descriptor = this.resolveDescriptor(descriptorName, profileName)
     const baseOptions = descriptor ? this.normalizeDescriptor(descriptor, fallback) : fallback
     return DeviceContextFactory.mergeOptions(baseOptions, overrides)
   }
@@ -122,6 +114,7 @@ export class DeviceContextFactory {
     fallback: ContextOptions,
   ): ContextOptions {
     const typedDescriptor = descriptor as PlaywrightDeviceDescriptor & ContextOptions
+    // Not a context option; descriptorEngine() turns it into the variant's engine.
     const { defaultBrowserType: _defaultBrowserType, ...options } = typedDescriptor
 
     return {
@@ -135,46 +128,68 @@ export class DeviceContextFactory {
     }
   }
 
+  // Firefox rejects contexts with isMobile; the viewport, touch, and user agent still apply.
+  private withoutUnsupportedOptions(
+    options: ContextOptions,
+    profileName: string,
+    engine: BrowserEngine,
+  ): ContextOptions {
+    if (engine !== "firefox" || !options.isMobile) {
+      return options
+    }
+
+    if (!this.warnedMobileProfiles.has(profileName)) {
+      console.warn(
+        `Profile "${profileName}" is a mobile profile; Firefox does not support isMobile, so its variants render without mobile meta viewport handling.`,
+      )
+      this.warnedMobileProfiles.add(profileName)
+    }
+
+    return { ...options, isMobile: undefined }
+  }
+
   private static mergeOptions(
     baseOptions: ContextOptions,
     overrides: ContextOptions,
   ): ContextOptions {
-    return {
-      ...baseOptions,
-      ...overrides,
-      viewport: overrides.viewport ?? baseOptions.viewport,
-      screen: overrides.screen ?? baseOptions.screen,
-    }
-  }
+    // Unset overrides keep the base value; `colorScheme: null` is a deliberate override.
+    const setOverrides = Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined),
+    ) as ContextOptions
 
-  private emitWarning(type: DeviceKind, descriptorName: string) {
-    if (type === "desktop") {
-      if (!this.desktopWarningEmitted) {
-        console.warn(
-          `Desktop device descriptor "${descriptorName}" not found. Falling back to custom desktop emulation.`,
-        )
-        this.desktopWarningEmitted = true
-      }
+    return { ...baseOptions, ...setOverrides }
+  }
 
+  private emitWarning(profileName: string, descriptorName: string) {
+    if (this.warnedProfiles.has(profileName)) {
       return
     }
 
-    if (type === "mobile") {
-      if (!this.mobileWarningEmitted) {
-        console.warn(
-          `Mobile device descriptor "${descriptorName}" not found. Falling back to basic mobile emulation.`,
-        )
-        this.mobileWarningEmitted = true
-      }
+    console.warn(
+      `Device descriptor "${descriptorName}" for profile "${profileName}" not found. Falling back to the profile's manual emulation settings.`,
+    )
+    this.warnedProfiles.add(profileName)
+  }
 
-      return
-    }
+  // Playwright writes the HAR file when the context closes.
+  private static withHarRecording(
+    options: ContextOptions,
+    har: HarRecordingOptions,
+  ): ContextOptions {
+    const filter = har.urlFilter.trim()
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(filter)
 
-    if (!this.tabletWarningEmitted) {
-      console.warn(
-        `Tablet device descriptor "${descriptorName}" not found. Falling back to basic tablet emulation.`,
-      )
-      this.tabletWarningEmitted = true
+    return {
+      ...options,
+      recordHar: {
+        path: har.path,
+        content: har.content,
+        urlFilter: regexMatch
+          ? new RegExp(regexMatch[1] ?? "", regexMatch[2])
+          : filter.length > 0
+            ? filter
+            : undefined,
+      },
     }
   }
 
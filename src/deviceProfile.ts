@@ -0,0 +1,128 @@
+import { z } from "zod"
+import { BROWSER_ENGINES } from "./browserEngine"
+import { config } from "./config"
+import { NETWORK_THROTTLING_PRESETS } from "./pageThrottler"
+
+const dimensionsSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+})
+
+export const deviceProfileSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(
+        /^[a-z0-9][a-z0-9-]*$/i,
+        "Profile names may only contain letters, digits and dashes because they become part of artifact file names",
+      ),
+    label: z.string().min(1).optional(),
+    descriptor: z.string().optional(),
+    engine: z.enum(BROWSER_ENGINES).optional(),
+    viewport: dimensionsSchema.optional(),
+    screen: dimensionsSchema.optional(),
+    deviceScaleFactor: z.number().positive().optional(),
+    isMobile: z.boolean().optional(),
+    hasTouch: z.boolean().optional(),
+    userAgent: z.string().min(1).optional(),
+    locale: z.string().min(1).optional(),
+    timezoneId: z.string().min(1).optional(),
+    colorScheme: z.enum(["dark", "light", "no-preference"]).nullable().optional(),
+    cpuThrottlingRate: z.number().min(1).optional(),
+    networkThrottling: z.enum(NETWORK_THROTTLING_PRESETS).optional(),
+  })
+  .strict()
+  .refine((profile) => Boolean(profile.descriptor?.trim()) || profile.viewport !== undefined, {
+    message: "Either a descriptor or a viewport is required",
+    path: ["viewport"],
+  })
+
+export const deviceProfileFileSchema = z
+  .object({
+    profiles: z.array(deviceProfileSchema).min(1, "At least one profile is required"),
+  })
+  .strict()
+
+type EmulationFields =
+  | "viewport"
+  | "screen"
+  | "deviceScaleFactor"
+  | "isMobile"
+  | "hasTouch"
+  | "userAgent"
+
+export type DeviceProfile = z.infer<typeof deviceProfileSchema> & {
+  /**
+   * Emulation used only when the descriptor is missing or unknown. The built-in profiles keep
+   * their environment values here so their descriptors stay in charge, as documented.
+   */
+  fallback?: Pick<z.infer<typeof deviceProfileSchema>, EmulationFields>
+}
+
+// The built-in profiles stay on Chromium whatever their descriptor was made for, so default runs
+// keep their artifact names and Chromium-only features; BROWSER_ENGINES still overrides them.
+export function buildDefaultDeviceProfiles(): DeviceProfile[] {
+  return [
+    {
+      name: "desktop",
+      label: "Desktop",
+      engine: "chromium",
+      descriptor: config.DESKTOP_DEVICE_DESCRIPTOR,
+      fallback: {
+        viewport: config.DESKTOP_VIEWPORT,
+        screen: config.DESKTOP_SCREEN,
+        deviceScaleFactor: config.DESKTOP_DEVICE_SCALE_FACTOR,
+        isMobile: false,
+        hasTouch: false,
+        userAgent: config.DESKTOP_USER_AGENT,
+      },
+      locale: config.DESKTOP_LOCALE,
+      timezoneId: config.DESKTOP_TIMEZONE_ID,
+      colorScheme: config.DESKTOP_COLOR_SCHEME,
+      cpuThrottlingRate: config.DESKTOP_CPU_THROTTLING_RATE,
+      networkThrottling: config.DESKTOP_NETWORK_THROTTLING ?? undefined,
+    },
+    {
+      name: "tablet",
+      label: "Tablet",
+      engine: "chromium",
+      descriptor: config.TABLET_DEVICE_DESCRIPTOR,
+      fallback: {
+        viewport: config.TABLET_VIEWPORT,
+        screen: config.TABLET_SCREEN,
+        deviceScaleFactor: config.TABLET_DEVICE_SCALE_FACTOR,
+        isMobile: true,
+        hasTouch: true,
+        userAgent: config.DEFAULT_TABLET_USER_AGENT,
+      },
+      locale: config.TABLET_LOCALE,
+      timezoneId: config.TABLET_TIMEZONE_ID,
+      colorScheme: config.TABLET_COLOR_SCHEME,
+      cpuThrottlingRate: config.TABLET_CPU_THROTTLING_RATE,
+      networkThrottling: config.TABLET_NETWORK_THROTTLING ?? undefined,
+    },
+    {
+      name: "mobile",
+      label: "Mobile",
+      engine: "chromium",
+      descriptor: config.MOBILE_DEVICE_DESCRIPTOR,
+      fallback: {
+        viewport: config.MOBILE_VIEWPORT,
+        screen: config.MOBILE_SCREEN,
+        deviceScaleFactor: config.MOBILE_DEVICE_SCALE_FACTOR,
+        isMobile: true,
+        hasTouch: true,
+        userAgent: config.DEFAULT_MOBILE_USER_AGENT,
+      },
+      locale: config.MOBILE_LOCALE,
+      timezoneId: config.MOBILE_TIMEZONE_ID,
+      colorScheme: config.MOBILE_COLOR_SCHEME,
+      cpuThrottlingRate: config.MOBILE_CPU_THROTTLING_RATE,
+      networkThrottling: config.MOBILE_NETWORK_THROTTLING ?? undefined,
+    },
+  ]
+}
+
+export function getDeviceProfileLabel(profile: DeviceProfile): string {
+  return profile.label ?? profile.name
+}
@@ -0,0 +1,73 @@
+export const FAILURE_CATEGORIES = [
+  "network",
+  "http-4xx",
+  "http-5xx",
+  "navigation-timeout",
+  "content-not-ready",
+  "interaction",
+  "screenshot",
+  "page-error",
+  "accessibility",
+  "unknown",
+] as const
+
+export type FailureCategory = (typeof FAILURE_CATEGORIES)[number]
+
+const NETWORK_ERROR_PATTERN =
+  /net::ERR_|NS_ERROR_|ENOTFOUND|EAI_AGAIN|ECONNREFUSED|ECONNRESET|ETIMEDOUT|Could not resolve host/i
+
+/**
+ * Maps a failed capture phase to a failure category. `httpStatus` is the status of the last
+ * navigation response, or null when none was received.
+ */
+export function classifyFailure(
+  phase: string,
+  error: unknown,
+  httpStatus: number | null,
+): FailureCategory {
+  const name = error instanceof Error ? error.name : ""
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (phase === "contentReady" || phase === "waitForSelector") {
+    return "content-not-ready"
+  }
+
+  if (phase === "interactions") {
+    return "interaction"
+  }
+
+  if (phase === "screenshot") {
+    return "screenshot"
+  }
+
+  if (phase === "pageErrors") {
+    return "page-error"
+  }
+
+  if (phase === "accessibilityViolations") {
+    return "accessibility"
+  }
+
+  if (NETWORK_ERROR_PATTERN.test(message)) {
+    return "network"
+  }
+
+  if (phase !== "navigation") {
+    return "unknown"
+  }
+
+  // A timeout wins over a status left behind by an earlier navigation strategy.
+  if (name === "TimeoutError" || /Timeout \d+ms exceeded/i.test(message)) {
+    return "navigation-timeout"
+  }
+
+  if (httpStatus !== null && httpStatus >= 500) {
+    return "http-5xx"
+  }
+
+  if (httpStatus !== null && httpStatus >= 400) {
+    return "http-4xx"
+  }
+
+  return "unknown"
+}
@@ -31,11 +31,16 @@ export class FileLogger {
     this.writeLine(formattedLine)
   }
 
-  attachTo(runFolder: string): void {
+  attachTo(runFolder: string, append = false): void {
     if (this.logFilePath === null) {
       this.logFilePath = joinPath(runFolder, this.createLogFileName())
-      const logFile = Bun.file(this.logFilePath)
-      this.logSink = logFile.writer()
+
+      if (append) {
+        void this.openForAppend(this.logFilePath)
+        return
+      }
+
+      this.logSink = Bun.file(this.logFilePath).writer()
       this.logSink.start?.()
     }
 
@@ -44,6 +49,22 @@ export class FileLogger {
     }
   }
 
+  // Bun's writer truncates its file, so a resumed run writes the earlier log back first. Lines
+  // recorded meanwhile stay pending and follow it.
+  private async openForAppend(logFilePath: string): Promise<void> {
+    const logFile = Bun.file(logFilePath)
+    const previous = (await logFile.exists()) ? await logFile.bytes() : null
+    const sink = logFile.writer()
+    sink.start?.()
+
+    if (previous !== null) {
+      sink.write(previous)
+    }
+
+    this.logSink = sink
+    this.flushPending()
+  }
+
   private flushPending(): void {
     if (this.logSink === null || this.pendingLines.length === 0) {
       return
@@ -98,7 +119,7 @@ export class FileLogger {
 export class RunFolderLoggingObserver implements RunFolderObserver {
   constructor(private readonly logger: FileLogger) {}
 
-  onRunFolderReady(runFolder: string): void {
-    this.logger.attachTo(runFolder)
+  onRunFolderReady(runFolder: string, resumed: boolean): void {
+    this.logger.attachTo(runFolder, resumed)
   }
 }
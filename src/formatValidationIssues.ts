@@ -0,0 +1,57 @@
+import type { z } from "zod"
+
+type IssuePath = ReadonlyArray<PropertyKey>
+
+export function formatValidationIssues(error: z.ZodError, input: unknown): string {
+  return error.issues
+    .map((issue) => `  - ${formatIssuePath(issue.path, input)}: ${issue.message}`)
+    .join("\n")
+}
+
+function formatIssuePath(path: IssuePath, input: unknown): string {
+  if (path.length === 0) {
+    return "(root)"
+  }
+
+  let formatted = ""
+  let current: unknown = input
+
+  for (const segment of path) {
+    if (typeof segment === "number") {
+      formatted += `[${segment}]`
+      current = Array.isArray(current) ? current[segment] : undefined
+      const entryLabel = describeEntry(current)
+      if (entryLabel) {
+        formatted += ` (${entryLabel})`
+      }
+      continue
+    }
+
+    const key = String(segment)
+    formatted += formatted.length === 0 ? key : `.${key}`
+    current =
+      current !== null && typeof current === "object"
+        ? (current as Record<string, unknown>)[key]
+        : undefined
+  }
+
+  return formatted
+}
+
+// Entries are easier to locate by their name or URL than by their index alone.
+function describeEntry(entry: unknown): string | null {
+  if (entry === null || typeof entry !== "object") {
+    return null
+  }
+
+  const record = entry as Record<string, unknown>
+
+  for (const key of ["name", "url"]) {
+    const value = record[key]
+    if (typeof value === "string" && value.length > 0) {
+      return `"${value}"`
+    }
+  }
+
+  return null
+}
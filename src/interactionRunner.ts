@@ -0,0 +1,106 @@
+import type { Page } from "playwright"
+import { describeInteractionStep, type InteractionStep } from "./interactionStep"
+
+export interface InteractionRunnerOptions {
+  defaultTimeoutMs: number
+  logInfo: (message: string) => void
+  logWarn: (message: string) => void
+}
+
+/**
+ * Runs declarative interaction steps against a loaded page. A failing step stops the run with
+ * an error naming the step, unless the step is marked `optional`.
+ */
+export class InteractionRunner {
+  constructor(private readonly options: InteractionRunnerOptions) {}
+
+  async run(page: Page, steps: ReadonlyArray<InteractionStep>): Promise<void> {
+    for (const [index, step] of steps.entries()) {
+      const label = `Step ${index + 1}/${steps.length} (${describeInteractionStep(step)})`
+      const stepStart = Date.now()
+      this.options.logInfo(`${label} started...`)
+
+      try {
+        await this.runStep(page, step)
+        this.options.logInfo(`${label} done (${Date.now() - stepStart}ms).`)
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+
+        if (step.optional) {
+          this.options.logWarn(
+            `${label} failed after ${Date.now() - stepStart}ms and is optional; continuing: ${reason}.`,
+          )
+          continue
+        }
+
+        throw new Error(`${label} failed after ${Date.now() - stepStart}ms: ${reason}`)
+      }
+    }
+  }
+
+  private async runStep(page: Page, step: InteractionStep): Promise<void> {
+    const timeout = step.timeoutMs ?? this.options.defaultTimeoutMs
+
+    switch (step.action) {
+      case "click":
+        await page.click(step.selector, {
+          timeout,
+          button: step.button,
+          clickCount: step.clickCount,
+        })
+        return
+      case "fill":
+        await page.fill(step.selector, step.value, { timeout })
+        return
+      case "press":
+        if (step.selector) {
+          await page.press(step.selector, step.key, { timeout })
+        } else {
+          await page.keyboard.press(step.key)
+        }
+        return
+      case "hover":
+        await page.hover(step.selector, { timeout })
+        return
+      case "waitForSelector":
+        await page.waitForSelector(step.selector, { state: step.state, timeout })
+        return
+      case "waitForNavigation":
+        // Without a URL the step waits for the current document, which covers navigations that
+        // were already triggered by the previous step.
+        if (step.url) {
+          await page.waitForURL(step.url, { waitUntil: step.waitUntil, timeout })
+        } else {
+          await page.waitForLoadState(step.waitUntil, { timeout })
+        }
+        return
+      case "scrollTo":
+        await page.locator(step.selector).first().scrollIntoViewIfNeeded({ timeout })
+        return
+      case "evaluate": {
+        const script = await Bun.file(step.script).text()
+        await InteractionRunner.withTimeout(page.evaluate(script), timeout)
+        return
+      }
+    }
+  }
+
+  // page.evaluate has no timeout of its own, and a script awaiting a promise could hang forever.
+  private static async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      return await Promise.race([
+        promise,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`Timeout ${timeoutMs}ms exceeded while evaluating the script`)),
+            timeoutMs,
+          )
+        }),
+      ])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
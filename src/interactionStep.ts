@@ -0,0 +1,102 @@
+import { z } from "zod"
+
+const selectorSchema = z.string().min(1)
+
+// Fields every step accepts besides its action-specific ones.
+const stepOptions = {
+  name: z.string().min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  optional: z.boolean().default(false),
+}
+
+const STEP_ACTIONS = [
+  "click",
+  "fill",
+  "press",
+  "hover",
+  "waitForSelector",
+  "waitForNavigation",
+  "scrollTo",
+  "evaluate",
+]
+
+export const interactionStepSchema = z.discriminatedUnion(
+  "action",
+  [
+    z
+      .object({
+        action: z.literal("click"),
+        selector: selectorSchema,
+        button: z.enum(["left", "right", "middle"]).optional(),
+        clickCount: z.number().int().positive().optional(),
+        ...stepOptions,
+      })
+      .strict(),
+    z
+      .object({
+        action: z.literal("fill"),
+        selector: selectorSchema,
+        value: z.string(),
+        ...stepOptions,
+      })
+      .strict(),
+    z
+      .object({
+        action: z.literal("press"),
+        key: z.string().min(1),
+        selector: selectorSchema.optional(),
+        ...stepOptions,
+      })
+      .strict(),
+    z.object({ action: z.literal("hover"), selector: selectorSchema, ...stepOptions }).strict(),
+    z
+      .object({
+        action: z.literal("waitForSelector"),
+        selector: selectorSchema,
+        state: z.enum(["attached", "detached", "visible", "hidden"]).default("visible"),
+        ...stepOptions,
+      })
+      .strict(),
+    z
+      .object({
+        action: z.literal("waitForNavigation"),
+        url: z.string().min(1).optional(),
+        waitUntil: z.enum(["load", "domcontentloaded", "networkidle"]).default("load"),
+        ...stepOptions,
+      })
+      .strict(),
+    z.object({ action: z.literal("scrollTo"), selector: selectorSchema, ...stepOptions }).strict(),
+    z.object({ action: z.literal("evaluate"), script: z.string().min(1), ...stepOptions }).strict(),
+  ],
+  { error: `Unknown step action; expected one of ${STEP_ACTIONS.join(", ")}` },
+)
+
+export const interactionStepListSchema = z.array(interactionStepSchema)
+
+export const interactionStepsFileSchema = z
+  .object({
+    steps: interactionStepListSchema.min(1, "At least one step is required"),
+  })
+  .strict()
+
+export type InteractionStep = z.infer<typeof interactionStepSchema>
+
+/** Short human-readable form of a step used in logs and error messages. */
+export function describeInteractionStep(step: InteractionStep): string {
+  if (step.name) {
+    return `${step.action} "${step.name}"`
+  }
+
+  switch (step.action) {
+    case "press":
+      return step.selector ? `press ${step.key} on ${step.selector}` : `press ${step.key}`
+    case "waitForSelector":
+      return `waitForSelector ${step.selector} (${step.state})`
+    case "waitForNavigation":
+      return `waitForNavigation ${step.url ?? "(current page)"} (${step.waitUntil})`
+    case "evaluate":
+      return `evaluate ${step.script}`
+    default:
+      return `${step.action} ${step.selector}`
+  }
+}
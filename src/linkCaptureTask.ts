@@ -1,83 +1,372 @@
-import type { Browser } from "playwright"
+import type { BrowserContextOptions } from "playwright"
+import type { AuthSession } from "./authSession"
+import type { BrowserEngine, BrowserEngineLauncher } from "./browserEngine"
 import { CaptureOutcome } from "./captureOutcome"
-import type { DeviceContextFactory } from "./deviceContextFactory"
+import type { CaptureTarget } from "./captureTarget"
+import type { CaptureVariant } from "./captureVariant"
+import { config } from "./config"
+import type { ContextWorkerPool } from "./contextWorkerPool"
+import type { DeviceContextFactory, HarRecordingOptions } from "./deviceContextFactory"
+import type { InteractionStep } from "./interactionStep"
+import { joinPath } from "./joinPath"
+import { PageArchiver } from "./pageArchiver"
+import {
+  compareMetadata,
+  type MetadataDifference,
+  type PageMetadata,
+} from "./pageMetadataExtractor"
+import type { RetryPolicy } from "./retryPolicy"
+import type { RouteRule } from "./routeRule"
+import { type MaskRules, mergeMaskRules } from "./screenshotMasks"
 import { VariantCaptureTask } from "./variantCaptureTask"
+import type { VariantOutcome } from "./variantOutcome"
 
 export interface LinkCaptureTaskConfig {
-  browser: Browser
+  browsers: BrowserEngineLauncher
   deviceContextFactory: DeviceContextFactory
-  url: string
+  workerPool: ContextWorkerPool
+  retryPolicy: RetryPolicy
+  variants: ReadonlyArray<CaptureVariant>
+  target: CaptureTarget
   linkDir: string
   parallelVariants: boolean
+  /** Steps run on every page; the target's own steps follow them. */
+  globalInteractionSteps: ReadonlyArray<InteractionStep>
+  authSession: AuthSession | null
+  routeRules: ReadonlyArray<RouteRule>
+  /** Outcomes carried over from a resumed run, keyed by variant name; those variants are not captured. */
+  reusedVariants?: ReadonlyMap<string, VariantOutcome>
+  onLinksDiscovered?: (urls: string[], finalUrl: string) => void
 }
 
 export class LinkCaptureTask {
+  /** Per-link report of the metadata fields that differ between variants. */
+  static readonly METADATA_DIFF_FILE_NAME = "meta.diff.json"
+
+  // Links found by each captured variant, keyed by variant name; see offerDiscoveredLinks.
+  private readonly discoveredLinks = new Map<string, { urls: string[]; finalUrl: string }>()
+
   constructor(private readonly config: LinkCaptureTaskConfig) {}
 
+  static htmlFileName(variantName: string): string {
+    return `page.${variantName}.html`
+  }
+
+  static screenshotFileName(variantName: string): string {
+    return `page.${variantName}.png`
+  }
+
+  static warcFileName(variantName: string): string | undefined {
+    return config.WARC_ENABLED ? `page.${variantName}.warc.gz` : undefined
+  }
+
+  static harFileName(variantName: string): string {
+    return `page.${variantName}.har`
+  }
+
+  // Printing to PDF is a Chromium feature.
+  static pdfFileName(variantName: string, engine: BrowserEngine): string | undefined {
+    return config.PDF_ENABLED && engine === "chromium" ? `page.${variantName}.pdf` : undefined
+  }
+
+  static consoleFileName(variantName: string): string | undefined {
+    return config.CONSOLE_CAPTURE_ENABLED ? `page.${variantName}.console.json` : undefined
+  }
+
+  static performanceFileName(variantName: string): string | undefined {
+    return config.PERFORMANCE_METRICS_ENABLED ? `page.${variantName}.perf.json` : undefined
+  }
+
+  static metadataFileName(variantName: string): string | undefined {
+    return config.METADATA_ENABLED ? `page.${variantName}.meta.json` : undefined
+  }
+
+  static a11ySnapshotFileName(variantName: string): string | undefined {
+    return config.A11Y_ENABLED ? `page.${variantName}.a11y.yaml` : undefined
+  }
+
+  static a11yAuditFileName(variantName: string): string | undefined {
+    return config.A11Y_ENABLED ? `page.${variantName}.a11y.json` : undefined
+  }
+
+  // MHTML comes from Chromium's serializer; single-file archives work in every engine.
+  static archiveFileName(variantName: string, engine: BrowserEngine): string | undefined {
+    const format = config.ARCHIVE_FORMAT
+    return format === "none" || (format === "mhtml" && engine !== "chromium")
+      ? undefined
+      : `page.${variantName}.${PageArchiver.fileExtension(format)}`
+  }
+
   async run(): Promise<CaptureOutcome> {
     const linkStart = Date.now()
     this.logInfo(
-      `Starting capture for ${this.config.url} into ${this.config.linkDir} (${this.config.parallelVariants ? "parallel" : "sequential"} variants).`,
+      `Starting capture for ${this.config.target.url} into ${this.config.linkDir} (${this.config.parallelVariants ? "parallel" : "sequential"} variants).`,
     )
 
+    const variants: VariantOutcome[] = []
+
     try {
-      const tasks = this.createVariantTasks()
-
-      if (this.config.parallelVariants) {
-        await Promise.all(tasks.map((task) => task.run()))
-      } else {
-        for (const task of tasks) {
-          this.logInfo(`Running variant ${task.getVariantLabel()} sequentially...`)
-          await task.run()
-        }
-      }
+      await this.runVariants(variants)
+    } catch (error) {
+      this.logWarn(
+        `Capture failed for ${this.config.target.url} after ${this.formatDuration(linkStart)}: ${
+          error instanceof Error ? error.message : String(error)
+        }.`,
+      )
+      return CaptureOutcome.fail(this.config.target, this.config.linkDir, error, variants)
+    }
+
+    this.offerDiscoveredLinks(variants)
+    const metadataDifferences = await this.compareVariantMetadata(variants)
+    const failedVariants = variants.filter((variant) => !variant.success)
 
+    if (failedVariants.length === 0) {
       this.logInfo(
-        `Finished link capture for ${this.config.url} in ${this.formatDuration(linkStart)}.`,
+        `Finished link capture for ${this.config.target.url} in ${this.formatDuration(linkStart)}.`,
+      )
+      return CaptureOutcome.ok(
+        this.config.target,
+        this.config.linkDir,
+        variants,
+        metadataDifferences,
+      )
+    }
+
+    const reason = failedVariants
+      .map((variant) => `${variant.label}: ${variant.failure?.message ?? "unknown error"}`)
+      .join("; ")
+    this.logWarn(
+      `Capture failed for ${this.config.target.url} after ${this.formatDuration(linkStart)}: ${reason}.`,
+    )
+    return CaptureOutcome.fail(
+      this.config.target,
+      this.config.linkDir,
+      reason,
+      variants,
+      metadataDifferences,
+    )
+  }
+
+  // Reads the variants' meta.json files rather than in-memory results, so reused variants of a
+  // resumed run are compared as well.
+  private async compareVariantMetadata(
+    variants: ReadonlyArray<VariantOutcome>,
+  ): Promise<MetadataDifference[] | null> {
+    const extracted: { variant: string; metadata: PageMetadata }[] = []
+
+    for (const variant of variants) {
+      const artifact = variant.artifacts.find((candidate) => candidate.kind === "metadata")
+
+      if (!artifact) {
+        continue
+      }
+
+      try {
+        extracted.push({
+          variant: variant.variant,
+          metadata: (await Bun.file(artifact.path).json()) as PageMetadata,
+        })
+      } catch (error) {
+        this.logWarn(
+          `Could not read ${artifact.path} for the metadata comparison: ${error instanceof Error ? error.message : String(error)}.`,
+        )
+      }
+    }
+
+    if (extracted.length < 2) {
+      return null
+    }
+
+    const differences = compareMetadata(extracted)
+    const reportPath = joinPath(this.config.linkDir, LinkCaptureTask.METADATA_DIFF_FILE_NAME)
+
+    try {
+      await Bun.write(
+        reportPath,
+        `${JSON.stringify({ url: this.config.target.url, variants: extracted.map(({ variant }) => variant), differences }, null, 2)}\n`,
       )
-      return CaptureOutcome.ok(this.config.url, this.config.linkDir)
     } catch (error) {
       this.logWarn(
-        `Capture failed for ${this.config.url} after ${this.formatDuration(linkStart)}: ${
-          error instanceof Error ? error.message : String(error)
-        }.`,
+        `Could not write ${reportPath}: ${error instanceof Error ? error.message : String(error)}.`,
+      )
+    }
+
+    if (differences.length > 0) {
+      this.logWarn(
+        `Metadata of ${this.config.target.url} differs between variants: ${differences.map((difference) => difference.field).join(", ")}.`,
+      )
+    }
+
+    return differences
+  }
+
+  // Every variant renders the same page, so the links of the first successful one are enough; a
+  // variant that failed after collecting its links may have stopped on an error page.
+  private offerDiscoveredLinks(variants: ReadonlyArray<VariantOutcome>) {
+    const onLinksDiscovered = this.config.onLinksDiscovered
+
+    if (!onLinksDiscovered) {
+      return
+    }
+
+    const source = variants.find(
+      (variant) => variant.success && this.discoveredLinks.has(variant.variant),
+    )
+    const links = source ? this.discoveredLinks.get(source.variant) : undefined
+
+    if (links) {
+      onLinksDiscovered(links.urls, links.finalUrl)
+    }
+  }
+
+  // Every variant opens its own browser context, so each one goes through the shared pool.
+  private async runVariants(variants: VariantOutcome[]) {
+    const reused = this.config.reusedVariants ?? new Map<string, VariantOutcome>()
+    const tasks = this.createVariantTasks(reused)
+    const runInPool = (task: VariantCaptureTask) =>
+      this.config.workerPool.submit(
+        this.config.target.url,
+        `${task.getVariantLabel()} variant of ${this.config.target.url}`,
+        () => task.run(),
       )
-      return CaptureOutcome.fail(this.config.url, this.config.linkDir, error)
+
+    if (reused.size > 0) {
+      this.logInfo(
+        `Reusing ${reused.size} variant(s) from the resumed run: ${[...reused.keys()].join(", ")}.`,
+      )
+    }
+
+    const captured: VariantOutcome[] = []
+
+    if (this.config.parallelVariants) {
+      captured.push(...(await Promise.all(tasks.map(runInPool))))
+    } else {
+      for (const task of tasks) {
+        this.logInfo(`Running variant ${task.getVariantLabel()} sequentially...`)
+        captured.push(await runInPool(task))
+      }
+    }
+
+    // Keep the variant order regardless of which variants were reused.
+    const capturedByName = new Map(captured.map((outcome) => [outcome.variant, outcome]))
+
+    for (const variant of this.selectVariants()) {
+      const outcome = reused.get(variant.name) ?? capturedByName.get(variant.name)
+
+      if (outcome) {
+        variants.push(outcome)
+      }
     }
   }
 
-  private createVariantTasks(): VariantCaptureTask[] {
+  private createVariantTasks(reused: ReadonlyMap<string, VariantOutcome>): VariantCaptureTask[] {
     const factory = this.config.deviceContextFactory
+    const { target } = this.config
+    const interactionSteps = [...this.config.globalInteractionSteps, ...(target.steps ?? [])]
+    const masks = this.buildMaskRules()
+
+    return this.selectVariants()
+      .filter((variant) => !reused.has(variant.name))
+      .map(
+        (variant) =>
+          new VariantCaptureTask({
+            browser: this.config.browsers.get(variant.engine),
+            engine: variant.engine,
+            url: target.url,
+            linkDir: this.config.linkDir,
+            htmlFileName: LinkCaptureTask.htmlFileName(variant.name),
+            screenshotFileName: LinkCaptureTask.screenshotFileName(variant.name),
+            archiveFileName: LinkCaptureTask.archiveFileName(variant.name, variant.engine),
+            warcFileName: LinkCaptureTask.warcFileName(variant.name),
+            pdfFileName: LinkCaptureTask.pdfFileName(variant.name, variant.engine),
+            consoleFileName: LinkCaptureTask.consoleFileName(variant.name),
+            a11ySnapshotFileName: LinkCaptureTask.a11ySnapshotFileName(variant.name),
+            performanceFileName: LinkCaptureTask.performanceFileName(variant.name),
+            metadataFileName: LinkCaptureTask.metadataFileName(variant.name),
+            a11yAuditFileName: LinkCaptureTask.a11yAuditFileName(variant.name),
+            variantName: variant.name,
+            variantLabel: variant.label,
+            contextOptions: this.withTargetHeaders(
+              factory.buildContextOptions(
+                variant.profile,
+                variant.engine,
+                this.buildHarRecording(variant),
+              ),
+            ),
+            throttling: {
+              cpuRate: variant.profile.cpuThrottlingRate ?? 1,
+              network: variant.profile.networkThrottling ?? null,
+            },
+            primaryNavigationTimeoutMs:
+              target.primaryNavigationTimeoutMs ?? config.PRIMARY_NAVIGATION_TIMEOUT_MS,
+            fallbackNavigationTimeoutMs:
+              target.fallbackNavigationTimeoutMs ?? config.FALLBACK_NAVIGATION_TIMEOUT_MS,
+            waitForSelector: target.waitForSelector,
+            interactionSteps,
+            masks,
+            authSession: this.config.authSession,
+            routeRules: this.config.routeRules,
+            retryPolicy: this.config.retryPolicy,
+            onLinksDiscovered: this.config.onLinksDiscovered
+              ? (urls, finalUrl) => this.discoveredLinks.set(variant.name, { urls, finalUrl })
+              : undefined,
+          }),
+      )
+  }
+
+  private buildHarRecording(variant: CaptureVariant): HarRecordingOptions | undefined {
+    if (!config.HAR_ENABLED) {
+      return undefined
+    }
+
+    return {
+      path: joinPath(this.config.linkDir, LinkCaptureTask.harFileName(variant.name)),
+      content: config.HAR_CONTENT,
+      urlFilter: config.HAR_URL_FILTER,
+    }
+  }
 
-    return [
-      new VariantCaptureTask({
-        browser: this.config.browser,
-        url: this.config.url,
-        linkDir: this.config.linkDir,
-        htmlFileName: "page.desktop.html",
-        screenshotFileName: "page.desktop.png",
-        variantLabel: "Desktop",
-        contextOptions: factory.buildDesktopContextOptions(),
-      }),
-      new VariantCaptureTask({
-        browser: this.config.browser,
-        url: this.config.url,
-        linkDir: this.config.linkDir,
-        htmlFileName: "page.tablet.html",
-        screenshotFileName: "page.tablet.png",
-        variantLabel: "Tablet",
-        contextOptions: factory.buildTabletContextOptions(),
-      }),
-      new VariantCaptureTask({
-        browser: this.config.browser,
-        url: this.config.url,
-        linkDir: this.config.linkDir,
-        htmlFileName: "page.mobile.html",
-        screenshotFileName: "page.mobile.png",
-        variantLabel: "Mobile",
-        contextOptions: factory.buildMobileContextOptions(),
-      }),
-    ]
+  // Global selectors apply to every page; the target adds its own. CUSTOM_CSS_FILE is read by
+  // the variant task so a missing file is reported like any other capture failure.
+  private buildMaskRules(): MaskRules {
+    const targetMasks = this.config.target.masks
+
+    return mergeMaskRules(
+      {
+        hide: config.MASK_HIDE_SELECTORS,
+        collapse: config.MASK_COLLAPSE_SELECTORS,
+        mask: config.MASK_BOX_SELECTORS,
+        remove: config.MASK_REMOVE_SELECTORS,
+      },
+      {
+        ...targetMasks,
+        css: targetMasks?.css ? [{ source: "capture plan", content: targetMasks.css }] : [],
+      },
+    )
+  }
+
+  // Plans select profiles; every engine of a selected profile is captured.
+  private selectVariants(): ReadonlyArray<CaptureVariant> {
+    const requested = this.config.target.profiles
+
+    if (!requested) {
+      return this.config.variants
+    }
+
+    return this.config.variants.filter((variant) => requested.includes(variant.profile.name))
+  }
+
+  private withTargetHeaders(contextOptions: BrowserContextOptions): BrowserContextOptions {
+    const headers = this.config.target.headers
+
+    if (!headers || Object.keys(headers).length === 0) {
+      return contextOptions
+    }
+
+    return {
+      ...contextOptions,
+      extraHTTPHeaders: { ...contextOptions.extraHTTPHeaders, ...headers },
+    }
   }
 
   private formatDuration(start: number): string {
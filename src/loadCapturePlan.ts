@@ -0,0 +1,60 @@
+import { buildCapturePlanSchema, type CaptureTarget, createCaptureTarget } from "./captureTarget"
+import { formatValidationIssues } from "./formatValidationIssues"
+import { assertScriptsExist } from "./loadInteractionSteps"
+import { loadUrlsFromFile } from "./loadUrlsFromFile"
+
+const PLAN_EXTENSIONS = [".json", ".yaml", ".yml"]
+
+export function isCapturePlanFile(filePath: string): boolean {
+  const lowerCased = filePath.toLowerCase()
+  return PLAN_EXTENSIONS.some((extension) => lowerCased.endsWith(extension))
+}
+
+export async function loadCapturePlan(
+  filePath: string,
+  profileNames: ReadonlyArray<string>,
+): Promise<CaptureTarget[]> {
+  if (!isCapturePlanFile(filePath)) {
+    const urls = await loadUrlsFromFile(filePath)
+    return urls.map((url) => createCaptureTarget(url))
+  }
+
+  const file = Bun.file(filePath)
+
+  if (!(await file.exists())) {
+    throw new Error(`Capture plan not found: ${filePath}`)
+  }
+
+  const content = await file.text()
+
+  if (content.trim().length === 0) {
+    throw new Error(`Capture plan is empty: ${filePath}`)
+  }
+
+  let raw: unknown
+
+  try {
+    raw = filePath.toLowerCase().endsWith(".json") ? JSON.parse(content) : Bun.YAML.parse(content)
+  } catch (error) {
+    throw new Error(
+      `Capture plan could not be parsed: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+    )
+  }
+
+  const parsed = buildCapturePlanSchema(profileNames).safeParse(raw)
+
+  if (!parsed.success) {
+    throw new Error(
+      `Capture plan contains invalid targets: ${filePath}\n${formatValidationIssues(parsed.error, raw)}`,
+    )
+  }
+
+  for (const [index, target] of parsed.data.targets.entries()) {
+    await assertScriptsExist(
+      target.steps ?? [],
+      `targets[${index}] ("${target.url}") of ${filePath}`,
+    )
+  }
+
+  return parsed.data.targets
+}
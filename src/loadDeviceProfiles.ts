@@ -0,0 +1,81 @@
+import {
+  buildDefaultDeviceProfiles,
+  type DeviceProfile,
+  deviceProfileFileSchema,
+} from "./deviceProfile"
+import { formatValidationIssues } from "./formatValidationIssues"
+
+export async function loadDeviceProfiles(
+  filePath: string,
+  selection: ReadonlyArray<string>,
+): Promise<DeviceProfile[]> {
+  const profiles =
+    filePath.trim().length > 0 ? await readProfileFile(filePath) : buildDefaultDeviceProfiles()
+  return selectProfiles(profiles, selection)
+
+  async function readProfileFile(path: string): Promise<DeviceProfile[]> {
+    const file = Bun.file(path)
+
+    if (!(await file.exists())) {
+      throw new Error(`Profiles file not found: ${path}`)
+    }
+
+    let raw: unknown
+
+    try {
+      raw = await file.json()
+    } catch (error) {
+      throw new Error(
+        `Profiles file is not valid JSON: ${path} (${error instanceof Error ? error.message : String(error)})`,
+      )
+    }
+
+    const parsed = deviceProfileFileSchema.safeParse(raw)
+
+    if (!parsed.success) {
+      throw new Error(
+        `Profiles file contains invalid profiles: ${path}\n${formatValidationIssues(parsed.error, raw)}`,
+      )
+    }
+
+    const seen = new Set<string>()
+    const duplicates = new Set<string>()
+
+    for (const profile of parsed.data.profiles) {
+      if (seen.has(profile.name)) {
+        duplicates.add(profile.name)
+      }
+      seen.add(profile.name)
+    }
+
+    if (duplicates.size > 0) {
+      throw new Error(
+        `Profiles file contains duplicate profile names: ${[...duplicates].join(", ")} (${path})`,
+      )
+    }
+
+    return parsed.data.profiles
+  }
+
+  function selectProfiles(
+    available: DeviceProfile[],
+    names: ReadonlyArray<string>,
+  ): DeviceProfile[] {
+    if (names.length === 0) {
+      return available
+    }
+
+    const byName = new Map(available.map((profile) => [profile.name, profile]))
+    const unknown = names.filter((name) => !byName.has(name))
+
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown device profile(s): ${unknown.join(", ")}. Available profiles: ${available
+          .map((profile) => profile.name)
+          .join(", ")}`,
+      )
+    }
+
+    return [...new Set(names)].flatMap((name) => byName.get(name) ?? [])
+  }
+}
@@ -0,0 +1,49 @@
+import { formatValidationIssues } from "./formatValidationIssues"
+import { type InteractionStep, interactionStepsFileSchema } from "./interactionStep"
+
+/** Reads the global interaction steps from a JSON or YAML file; an empty path means none. */
+export async function loadInteractionSteps(filePath: string): Promise<InteractionStep[]> {
+  if (filePath.trim().length === 0) {
+    return []
+  }
+
+  const file = Bun.file(filePath)
+
+  if (!(await file.exists())) {
+    throw new Error(`Interaction steps file not found: ${filePath}`)
+  }
+
+  let raw: unknown
+
+  try {
+    const content = await file.text()
+    raw = filePath.toLowerCase().endsWith(".json") ? JSON.parse(content) : Bun.YAML.parse(content)
+  } catch (error) {
+    throw new Error(
+      `Interaction steps file could not be parsed: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+    )
+  }
+
+  const parsed = interactionStepsFileSchema.safeParse(raw)
+
+  if (!parsed.success) {
+    throw new Error(
+      `Interaction steps file contains invalid steps: ${filePath}\n${formatValidationIssues(parsed.error, raw)}`,
+    )
+  }
+
+  await assertScriptsExist(parsed.data.steps, filePath)
+  return parsed.data.steps
+}
+
+/** Fails before any browser starts when an `evaluate` step points at a missing script. */
+export async function assertScriptsExist(
+  steps: ReadonlyArray<InteractionStep>,
+  source: string,
+): Promise<void> {
+  for (const [index, step] of steps.entries()) {
+    if (step.action === "evaluate" && !(await Bun.file(step.script).exists())) {
+      throw new Error(`steps[${index}] in ${source}: script not found: ${step.script}`)
+    }
+  }
+}
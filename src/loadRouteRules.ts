@@ -0,0 +1,79 @@
+import { config } from "./config"
+import { formatValidationIssues } from "./formatValidationIssues"
+import { type RouteRule, routeRulesFileSchema } from "./routeRule"
+import { UrlPatternMatcher } from "./urlPatternMatcher"
+
+/**
+ * Builds the routing rules of a run: blocks from BLOCKED_DOMAINS and BLOCKED_RESOURCE_TYPES
+ * first, then the rules of ROUTE_RULES_FILE in file order.
+ */
+export async function loadRouteRules(): Promise<RouteRule[]> {
+  const rules: RouteRule[] = []
+
+  if (config.BLOCKED_DOMAINS.length > 0) {
+    rules.push({ name: "BLOCKED_DOMAINS", action: "block", domains: [...config.BLOCKED_DOMAINS] })
+  }
+
+  if (config.BLOCKED_RESOURCE_TYPES.length > 0) {
+    rules.push({
+      name: "BLOCKED_RESOURCE_TYPES",
+      action: "block",
+      resourceTypes: [...config.BLOCKED_RESOURCE_TYPES],
+    })
+  }
+
+  return [...rules, ...(await readRulesFile(config.ROUTE_RULES_FILE))]
+}
+
+async function readRulesFile(filePath: string): Promise<RouteRule[]> {
+  if (filePath.trim().length === 0) {
+    return []
+  }
+
+  const file = Bun.file(filePath)
+
+  if (!(await file.exists())) {
+    throw new Error(`Route rules file not found: ${filePath}`)
+  }
+
+  let raw: unknown
+
+  try {
+    const content = await file.text()
+    raw = filePath.toLowerCase().endsWith(".json") ? JSON.parse(content) : Bun.YAML.parse(content)
+  } catch (error) {
+    throw new Error(
+      `Route rules file could not be parsed: ${filePath} (${error instanceof Error ? error.message : String(error)})`,
+    )
+  }
+
+  const parsed = routeRulesFileSchema.safeParse(raw)
+
+  if (!parsed.success) {
+    throw new Error(
+      `Route rules file contains invalid rules: ${filePath}\n${formatValidationIssues(parsed.error, raw)}`,
+    )
+  }
+
+  const rules: RouteRule[] = []
+
+  for (const [index, rule] of parsed.data.rules.entries()) {
+    if (rule.url !== undefined) {
+      try {
+        new UrlPatternMatcher([rule.url], [])
+      } catch (error) {
+        throw new Error(
+          `rules[${index}] in ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    }
+
+    if (rule.action === "fulfill" && !(await Bun.file(rule.file).exists())) {
+      throw new Error(`rules[${index}] in ${filePath}: fixture file not found: ${rule.file}`)
+    }
+
+    rules.push({ ...rule, name: rule.name ?? `rules[${index}] ${rule.action}` })
+  }
+
+  return rules
+}
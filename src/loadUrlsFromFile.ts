@@ -36,12 +36,12 @@ export async function loadUrlsFromFile(filePath: string): Promise<string[]> {
   }
 
   return normalizedUrls
+}
 
-  function normalizeUrl(rawUrl: string): string {
-    try {
-      return new URL(rawUrl).toString()
-    } catch {
-      return new URL(`https://${rawUrl}`).toString()
-    }
+export function normalizeUrl(rawUrl: string): string {
+  try {
+    return new URL(rawUrl).toString()
+  } catch {
+    return new URL(`https://${rawUrl}`).toString()
   }
 }
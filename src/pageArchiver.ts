@@ -0,0 +1,53 @@
+import type { Page } from "playwright"
+import { SingleFileHtmlBuilder } from "./singleFileHtmlBuilder"
+
+export const ARCHIVE_FORMATS = ["none", "mhtml", "single-file"] as const
+
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number]
+
+export interface PageArchive {
+  content: string
+  failedResources: number
+}
+
+/** Produces a self-contained snapshot of a rendered page that opens without network access. */
+export class PageArchiver {
+  constructor(
+    private readonly format: Exclude<ArchiveFormat, "none">,
+    private readonly resourceTimeoutMs: number,
+  ) {}
+
+  static fileExtension(format: Exclude<ArchiveFormat, "none">): string {
+    return format === "mhtml" ? "mhtml" : "archive.html"
+  }
+
+  async archive(page: Page): Promise<PageArchive> {
+    if (this.format === "mhtml") {
+      return { content: await PageArchiver.captureMhtml(page), failedResources: 0 }
+    }
+
+    const { html, failedResources } = await new SingleFileHtmlBuilder(
+      page,
+      this.resourceTimeoutMs,
+    ).build()
+    return { content: html, failedResources }
+  }
+
+  // MHTML comes from the browser's own serializer, which embeds every loaded resource.
+  private static async captureMhtml(page: Page): Promise<string> {
+    const browserName = page.context().browser()?.browserType().name()
+
+    if (browserName !== undefined && browserName !== "chromium") {
+      throw new Error(`MHTML archives require Chromium; this variant runs in ${browserName}.`)
+    }
+
+    const session = await page.context().newCDPSession(page)
+
+    try {
+      const { data } = await session.send("Page.captureSnapshot", { format: "mhtml" })
+      return data
+    } finally {
+      await session.detach()
+    }
+  }
+}
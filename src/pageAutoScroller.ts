@@ -0,0 +1,136 @@
+import type { Page } from "playwright"
+
+type WindowLike = {
+  scrollY: number
+  innerHeight: number
+  scrollBy: (x: number, y: number) => void
+  scrollTo: (x: number, y: number) => void
+  setTimeout: (handler: () => void, timeout: number) => number
+  document: {
+    documentElement: { scrollHeight: number }
+    body?: { scrollHeight: number } | null
+    images: ArrayLike<ImageLike>
+  }
+}
+
+type ImageLike = {
+  complete: boolean
+  addEventListener: (type: string, listener: () => void, options: { once: boolean }) => void
+}
+
+interface ScrollPosition {
+  scrollY: number
+  viewportHeight: number
+  documentHeight: number
+}
+
+export interface AutoScrollOptions {
+  maxHeightPx: number
+  timeoutMs: number
+  stepDelayMs: number
+  imageTimeoutMs: number
+}
+
+export type AutoScrollStopReason = "stable" | "max-height" | "timeout"
+
+export interface AutoScrollResult {
+  steps: number
+  documentHeight: number
+  reason: AutoScrollStopReason
+  pendingImages: number
+}
+
+/**
+ * Scrolls a page down one viewport at a time so lazy-loaded content renders before a full-page
+ * screenshot. Scrolling stops once the bottom is reached and the document stopped growing, or at
+ * the height and time caps that keep infinite feeds from scrolling forever.
+ */
+export class PageAutoScroller {
+  // The bottom has to stay put for this many steps; feeds often append content after a pause.
+  private static readonly STABLE_STEPS = 2
+
+  constructor(private readonly options: AutoScrollOptions) {}
+
+  async scroll(page: Page): Promise<AutoScrollResult> {
+    const deadline = Date.now() + this.options.timeoutMs
+    let steps = 0
+    let stableSteps = 0
+    let previousHeight = -1
+    let position = await PageAutoScroller.readPosition(page)
+    let reason: AutoScrollStopReason = "stable"
+
+    while (true) {
+      const atBottom = position.scrollY + position.viewportHeight >= position.documentHeight - 1
+      stableSteps = atBottom && position.documentHeight === previousHeight ? stableSteps + 1 : 0
+
+      if (stableSteps >= PageAutoScroller.STABLE_STEPS) {
+        break
+      }
+
+      if (position.scrollY + position.viewportHeight >= this.options.maxHeightPx) {
+        reason = "max-height"
+        break
+      }
+
+      if (Date.now() >= deadline) {
+        reason = "timeout"
+        break
+      }
+
+      previousHeight = position.documentHeight
+      await page.evaluate(() => {
+        const win = globalThis as unknown as WindowLike
+        win.scrollBy(0, win.innerHeight)
+      })
+      position = await PageAutoScroller.readPosition(page)
+      steps++
+      await page.waitForTimeout(this.options.stepDelayMs)
+    }
+
+    const pendingImages = await this.waitForImages(page)
+    await page.evaluate(() => (globalThis as unknown as WindowLike).scrollTo(0, 0))
+
+    return { steps, documentHeight: position.documentHeight, reason, pendingImages }
+  }
+
+  // Resolves with the number of images still loading when the image timeout ran out.
+  private waitForImages(page: Page): Promise<number> {
+    return page.evaluate((timeoutMs) => {
+      const win = globalThis as unknown as WindowLike
+      const pending = Array.from(win.document.images).filter((image) => !image.complete)
+
+      if (pending.length === 0) {
+        return Promise.resolve(0)
+      }
+
+      return new Promise<number>((resolve) => {
+        let remaining = pending.length
+        const settle = () => {
+          remaining--
+          if (remaining === 0) {
+            resolve(0)
+          }
+        }
+
+        for (const image of pending) {
+          image.addEventListener("load", settle, { once: true })
+          image.addEventListener("error", settle, { once: true })
+        }
+
+        win.setTimeout(() => resolve(remaining), timeoutMs)
+      })
+    }, this.options.imageTimeoutMs)
+  }
+
+  private static readPosition(page: Page): Promise<ScrollPosition> {
+    return page.evaluate(() => {
+      const win = globalThis as unknown as WindowLike
+      const doc = win.document
+      return {
+        scrollY: win.scrollY,
+        viewportHeight: win.innerHeight,
+        documentHeight: Math.max(doc.documentElement.scrollHeight, doc.body?.scrollHeight ?? 0),
+      } satisfies ScrollPosition
+    })
+  }
+}
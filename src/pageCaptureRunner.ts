@@ -1,16 +1,43 @@
-import { chromium } from "playwright"
+import type { LaunchOptions } from "playwright"
+import type { AuthSession } from "./authSession"
+import { type BrowserEngine, BrowserEngineLauncher, getBrowserEngineLabel } from "./browserEngine"
 import type { CaptureOutcome } from "./captureOutcome"
+import type { CaptureTarget } from "./captureTarget"
+import { buildCaptureVariants, type CaptureVariant } from "./captureVariant"
 import { joinPath } from "./joinPath"
 import { config } from "./config"
+import { ContextWorkerPool } from "./contextWorkerPool"
+import { CrawlFrontier } from "./crawlFrontier"
 import { DeviceContextFactory } from "./deviceContextFactory"
+import type { DeviceProfile } from "./deviceProfile"
+import type { InteractionStep } from "./interactionStep"
 import { LinkCaptureTask } from "./linkCaptureTask"
+import { describeRouteRuleCount, sumRouteRuleCounts } from "./requestRouter"
+import { RetryPolicy } from "./retryPolicy"
+import type { RouteRule } from "./routeRule"
+import type { RunResumeState } from "./runResumeState"
+import { RunGalleryWriter } from "./runGalleryWriter"
+import { RunManifestWriter } from "./runManifestWriter"
+import { UrlCanonicalizer } from "./urlCanonicalizer"
+import { UrlPatternMatcher } from "./urlPatternMatcher"
 
 export interface RunFolderObserver {
-  onRunFolderReady(runFolder: string): void
+  /** `resumed` is true when the folder belongs to an earlier run that is being resumed. */
+  onRunFolderReady(runFolder: string, resumed: boolean): void
+}
+
+export interface PageCaptureRunnerOptions {
+  /** Completes an earlier run folder instead of creating a new one. */
+  resumeState?: RunResumeState | null
+  /** Interaction steps run on every page before the target's own steps. */
+  interactionSteps?: ReadonlyArray<InteractionStep>
+  authSession?: AuthSession | null
+  /** Block, header, and fulfill rules applied to every request. */
+  routeRules?: ReadonlyArray<RouteRule>
 }
 
 interface PreparedLinkTask {
-  url: string
+  target: CaptureTarget
   linkDir: string
   task: LinkCaptureTask
 }
@@ -27,35 +54,78 @@ export class PageCaptureRunner {
   private readonly usedNames = new Set<string>()
   private readonly deviceContextFactory = new DeviceContextFactory()
   private readonly runFolderObservers: RunFolderObserver[] = []
+  private readonly crawlFrontier: CrawlFrontier | null
+  private readonly resumeState: RunResumeState | null
+  private readonly interactionSteps: ReadonlyArray<InteractionStep>
+  private readonly authSession: AuthSession | null
+  private readonly variants: ReadonlyArray<CaptureVariant>
+  private readonly routeRules: ReadonlyArray<RouteRule>
+  private readonly workerPool = new ContextWorkerPool({
+    maxConcurrency: config.CAPTURE_CONCURRENCY,
+    perHostConcurrency: config.CAPTURE_HOST_CONCURRENCY,
+    hostLimits: config.CAPTURE_HOST_LIMITS,
+  })
+  private readonly retryPolicy = new RetryPolicy({
+    maxAttempts: config.CAPTURE_MAX_ATTEMPTS,
+    baseDelayMs: config.CAPTURE_RETRY_BASE_DELAY_MS,
+    maxDelayMs: config.CAPTURE_RETRY_MAX_DELAY_MS,
+    retryOn: config.CAPTURE_RETRY_ON,
+  })
 
   constructor(
-    private readonly urls: string[],
+    private readonly targets: ReadonlyArray<CaptureTarget>,
+    profiles: ReadonlyArray<DeviceProfile>,
     private readonly outputDir: string = config.DEFAULT_OUTPUT_DIR,
-  ) {}
+    options: PageCaptureRunnerOptions = {},
+  ) {
+    this.resumeState = options.resumeState ?? null
+    this.interactionSteps = options.interactionSteps ?? []
+    this.authSession = options.authSession ?? null
+    this.routeRules = options.routeRules ?? []
+    this.variants = buildCaptureVariants(profiles, {
+      runEngines: config.BROWSER_ENGINES,
+      descriptorEngine: (profile) => this.deviceContextFactory.descriptorEngine(profile),
+    })
+    this.crawlFrontier = config.CRAWL_ENABLED ? PageCaptureRunner.createCrawlFrontier() : null
+  }
 
   async run(): Promise<CaptureOutcome[]> {
     const runStart = Date.now()
+    const startedAt = new Date(runStart)
     console.log(
-      `Starting capture run for ${this.urls.length} URL(s). Output root: ${this.outputDir}.`,
+      `Starting capture run for ${this.targets.length} URL(s) with profile(s) ${this.describeProfiles()}. Output root: ${this.outputDir}.`,
     )
     const runFolder = await this.prepareRunFolder()
-    console.log(`Launching Chromium browser...`)
-    const launchStart = Date.now()
-    const browser = await chromium.launch(PageCaptureRunner.buildChromiumLaunchOptions())
-    console.log(`Chromium launched in ${this.formatDuration(launchStart)}.`)
+    this.warnAboutChromiumOnlyOptions()
+    const browsers = new BrowserEngineLauncher((engine) =>
+      PageCaptureRunner.buildLaunchOptions(engine),
+    )
     let results: CaptureOutcome[] = []
 
     try {
-      const preparedTasks = await this.prepareLinkTasks(browser, runFolder)
-      console.log(`Prepared ${preparedTasks.length} link task(s).`)
-      results = await this.execute(preparedTasks)
+      for (const engine of this.engines()) {
+        console.log(`Launching ${getBrowserEngineLabel(engine)} browser...`)
+        const launchStart = Date.now()
+        await browsers.launch(engine)
+        console.log(
+          `${getBrowserEngineLabel(engine)} launched in ${this.formatDuration(launchStart)}.`,
+        )
+      }
+
+      // Storage state is engine independent, so the login runs once in the first engine.
+      await this.authSession?.login(browsers.get(this.engines()[0] ?? "chromium"))
+      results = await this.captureAll(browsers, runFolder)
     } finally {
-      console.log("Closing Chromium browser...")
-      const closeStart = Date.now()
-      await browser.close()
-      console.log(`Browser closed in ${this.formatDuration(closeStart)}.`)
+      for (const engine of browsers.launchedEngines()) {
+        console.log(`Closing ${getBrowserEngineLabel(engine)} browser...`)
+        const closeStart = Date.now()
+        await browsers.close(engine)
+        console.log(`Browser closed in ${this.formatDuration(closeStart)}.`)
+      }
     }
 
+    await this.writeManifest(results, runFolder, startedAt)
+    await this.writeGallery(runFolder)
     this.report(results, runFolder)
     console.log(`Capture run finished in ${this.formatDuration(runStart)}.`)
     return results
@@ -66,34 +136,96 @@ export class PageCaptureRunner {
   }
 
   private async prepareRunFolder(): Promise<string> {
+    if (this.resumeState) {
+      const runFolder = this.resumeState.runFolder
+      this.notifyRunFolderObservers(runFolder, true)
+      console.log(`Resuming run folder: ${runFolder}.`)
+      return runFolder
+    }
+
     const timestamp = PageCaptureRunner.formatTimestamp(new Date())
     const runFolder = joinPath(process.cwd(), this.outputDir, timestamp)
     await this.ensureDir(runFolder)
-    this.notifyRunFolderObservers(runFolder)
+    this.notifyRunFolderObservers(runFolder, false)
     console.log(`Run folder ready: ${runFolder}.`)
     return runFolder
   }
 
+  // Each wave holds the pages of one crawl depth; without crawling there is a single wave.
+  private async captureAll(
+    browsers: BrowserEngineLauncher,
+    runFolder: string,
+  ): Promise<CaptureOutcome[]> {
+    const results: CaptureOutcome[] = []
+    const targets = this.resumeState?.mergeTargets(this.targets) ?? this.targets
+    let wave = this.crawlFrontier ? this.crawlFrontier.seed(targets) : [...targets]
+
+    // Reserve explicit and previously used folder names first so generated slugs never take them.
+    for (const folder of this.resumeState?.reservedFolders() ?? []) {
+      this.usedNames.add(folder)
+    }
+
+    for (const target of wave) {
+      if (target.folder) {
+        this.usedNames.add(target.folder)
+      }
+    }
+
+    while (wave.length > 0) {
+      const preparedTasks = await this.prepareLinkTasks(browsers, runFolder, wave, results.length)
+      console.log(`Prepared ${preparedTasks.length} link task(s).`)
+      results.push(...(await this.execute(preparedTasks)))
+      wave = this.crawlFrontier?.drain() ?? []
+
+      if (wave.length > 0) {
+        console.log(
+          `[Crawl] Continuing with ${wave.length} discovered page(s) at depth ${wave[0]?.depth ?? 0}.`,
+        )
+      }
+    }
+
+    return results
+  }
+
   private async prepareLinkTasks(
-    browser: Awaited<ReturnType<typeof chromium.launch>>,
+    browsers: BrowserEngineLauncher,
     runFolder: string,
+    targets: ReadonlyArray<CaptureTarget>,
+    offset: number,
   ): Promise<PreparedLinkTask[]> {
     const tasks: PreparedLinkTask[] = []
+    const frontier = this.crawlFrontier
 
-    for (const [index, url] of this.urls.entries()) {
-      const linkDir = await this.prepareLinkDirectory(runFolder, url, index)
+    for (const [index, target] of targets.entries()) {
+      const linkDir = await this.prepareLinkDirectory(runFolder, target, offset + index)
+      const reusedVariants = await this.resumeState?.collectReusableVariants(
+        target.url,
+        linkDir,
+        this.variants,
+      )
       const task = new LinkCaptureTask({
-        browser,
+        browsers,
         deviceContextFactory: this.deviceContextFactory,
-        url,
+        workerPool: this.workerPool,
+        retryPolicy: this.retryPolicy,
+        variants: this.variants,
+        target,
         linkDir,
         parallelVariants: config.PARALLEL_CAPTURE_ENABLED,
+        globalInteractionSteps: this.interactionSteps,
+        authSession: this.authSession,
+        routeRules: this.routeRules,
+        reusedVariants,
+        onLinksDiscovered:
+          frontier?.shouldCollectLinks(target) === true
+            ? (urls, finalUrl) => frontier.offer(target, urls, finalUrl)
+            : undefined,
       })
-      tasks.push({ url, linkDir, task })
+      tasks.push({ target, linkDir, task })
       console.log(
-        `Queued capture task ${index + 1}/${this.urls.length} for ${url}. Variants: ${
-          config.PARALLEL_CAPTURE_ENABLED ? "parallel" : "sequential"
-        }.`,
+        `Queued capture task ${offset + index + 1}/${offset + targets.length} for ${target.url}${
+          target.discoveredFrom ? ` (discovered from ${target.discoveredFrom})` : ""
+        }. Variants: ${config.PARALLEL_CAPTURE_ENABLED ? "parallel" : "sequential"}.`,
       )
     }
 
@@ -102,20 +234,23 @@ export class PageCaptureRunner {
 
   private async execute(tasks: PreparedLinkTask[]): Promise<CaptureOutcome[]> {
     const runTask = async (entry: PreparedLinkTask) => {
-      console.log(`→ Capturing ${entry.url} ...`)
+      console.log(`→ Capturing ${entry.target.url} ...`)
       const outcome = await entry.task.run()
 
       if (outcome.success) {
         console.log(
-          `✓ Saved capture for ${outcome.url}: ${outcome.folder} (desktop/tablet/mobile HTML & PNG artifacts).`,
+          `✓ Saved capture for ${outcome.url}: ${outcome.folder} (${outcome.variants
+            .map((variant) => variant.variant)
+            .join("/")} HTML & PNG artifacts).`,
         )
       } else {
-        console.error(`✗ Error (${entry.url}): ${outcome.error}`)
+        console.error(`✗ Error (${entry.target.url}): ${outcome.error}`)
       }
 
       return outcome
     }
 
+    // Links only queue their variants; the worker pool bounds how many contexts are open.
     if (config.PARALLEL_CAPTURE_ENABLED) {
       return Promise.all(tasks.map((task) => runTask(task)))
     }
@@ -131,13 +266,14 @@ export class PageCaptureRunner {
 
   private async prepareLinkDirectory(
     runFolder: string,
-    url: string,
+    target: CaptureTarget,
     index: number,
   ): Promise<string> {
-    const folderName = this.slugifyUrl(url, index)
+    const folderName =
+      this.resumeState?.folderFor(target.url) ?? target.folder ?? this.slugifyUrl(target.url, index)
     const linkDir = joinPath(runFolder, folderName)
     await this.ensureDir(linkDir)
-    console.log(`Ensured link folder ${linkDir} for ${url}.`)
+    console.log(`Ensured link folder ${linkDir} for ${target.url}.`)
     return linkDir
   }
 
@@ -186,6 +322,38 @@ export class PageCaptureRunner {
     return sanitized || now.getTime().toString()
   }
 
+  // Rendered from manifest.json, so the gallery matches what `bun run report` shows.
+  private async writeGallery(runFolder: string) {
+    if (!config.GALLERY_ENABLED) {
+      return
+    }
+
+    try {
+      const manifest = await RunManifestWriter.read(runFolder)
+      const galleryPath = await new RunGalleryWriter(runFolder).write(manifest)
+      console.log(`Run gallery written to ${galleryPath}.`)
+    } catch (error) {
+      console.error(
+        `Failed to write run gallery: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  private async writeManifest(results: CaptureOutcome[], runFolder: string, startedAt: Date) {
+    try {
+      const manifestPath = await new RunManifestWriter(runFolder).write(results, {
+        startedAt,
+        finishedAt: new Date(),
+      })
+      console.log(`Run manifest written to ${manifestPath}.`)
+    } catch (error) {
+      console.error(
+        `Failed to write run manifest: ${error instanceof Error ? error.message : String(error)}`,
+      )
+      process.exitCode = 1
+    }
+  }
+
   private report(results: CaptureOutcome[], runFolder: string) {
     const successCount = results.filter((r) => r.success).length
     const failureCount = results.length - successCount
@@ -194,12 +362,107 @@ export class PageCaptureRunner {
       `\nCapture finished. Success: ${successCount}, Failed: ${failureCount}. Output: ${runFolder}`,
     )
 
+    const consoleSummaries = results.flatMap((result) =>
+      result.variants.flatMap((variant) => (variant.console ? [variant.console] : [])),
+    )
+    const pageErrors = consoleSummaries.reduce((sum, summary) => sum + summary.pageErrors, 0)
+    const failedRequests = consoleSummaries.reduce(
+      (sum, summary) => sum + summary.failedRequests + summary.httpErrors,
+      0,
+    )
+
+    if (pageErrors > 0 || failedRequests > 0) {
+      console.log(
+        `Pages reported ${pageErrors} uncaught error(s) and ${failedRequests} failed request(s); see page.<profile>.console.json.`,
+      )
+    }
+
+    const audited = results.flatMap((result) =>
+      result.variants.flatMap((variant) => (variant.accessibility ? [variant.accessibility] : [])),
+    )
+
+    if (audited.length > 0) {
+      const violations = audited.reduce((sum, summary) => sum + summary.violations, 0)
+      const critical = audited.reduce((sum, summary) => sum + summary.critical, 0)
+      console.log(
+        `Accessibility audits of ${audited.length} variant(s) found ${violations} violated rule(s), ${critical} critical; see page.<profile>.a11y.json.`,
+      )
+    }
+
+    const measured = results.reduce(
+      (sum, result) => sum + result.variants.filter((variant) => variant.performance).length,
+      0,
+    )
+
+    if (measured > 0) {
+      console.log(
+        `Performance metrics recorded for ${measured} variant(s); see page.<profile>.perf.json and the manifest summary.`,
+      )
+    }
+
+    const metadataMismatches = results.filter(
+      (result) => result.metadataDifferences && result.metadataDifferences.length > 0,
+    ).length
+
+    if (metadataMismatches > 0) {
+      console.log(
+        `Metadata differs between variants on ${metadataMismatches} link(s); see meta.diff.json in their folders.`,
+      )
+    }
+
+    const routing = sumRouteRuleCounts(
+      results.flatMap((result) => result.variants.map((variant) => variant.routing)),
+    )
+
+    for (const count of routing) {
+      console.log(`Route rule ${describeRouteRuleCount(count)}.`)
+    }
+
     if (failureCount > 0) {
       process.exitCode = 1
     }
   }
 
-  private static buildChromiumLaunchOptions(): Parameters<typeof chromium.launch>[0] {
+  private static createCrawlFrontier(): CrawlFrontier {
+    return new CrawlFrontier({
+      maxDepth: config.CRAWL_MAX_DEPTH,
+      maxPages: config.CRAWL_MAX_PAGES,
+      canonicalizer: new UrlCanonicalizer(config.CRAWL_TRACKING_PARAMS),
+      matcher: new UrlPatternMatcher(config.CRAWL_INCLUDE_PATTERNS, config.CRAWL_EXCLUDE_PATTERNS),
+    })
+  }
+
+  private warnAboutChromiumOnlyOptions() {
+    const others = this.engines().filter((engine) => engine !== "chromium")
+
+    if (others.length === 0) {
+      return
+    }
+
+    const chromiumOnly = [
+      config.CHROMIUM_HOST_RESOLVER_RULES.length > 0 ? "CHROMIUM_HOST_RESOLVER_RULES" : null,
+      config.CHROMIUM_USE_CUSTOM_DNS ? "CHROMIUM_USE_CUSTOM_DNS" : null,
+      config.PDF_ENABLED ? "PDF_ENABLED" : null,
+      config.ARCHIVE_FORMAT === "mhtml" ? "ARCHIVE_FORMAT=mhtml" : null,
+    ].filter((name) => name !== null)
+
+    if (chromiumOnly.length > 0) {
+      console.warn(
+        `${chromiumOnly.join(", ")} only appl${chromiumOnly.length === 1 ? "ies" : "y"} to Chromium and ${chromiumOnly.length === 1 ? "is" : "are"} ignored for ${others.map(getBrowserEngineLabel).join(" and ")} variants.`,
+      )
+    }
+  }
+
+  private engines(): BrowserEngine[] {
+    return [...new Set(this.variants.map((variant) => variant.engine))]
+  }
+
+  // The host resolver and DNS switches are Chromium command-line flags; other engines ignore them.
+  private static buildLaunchOptions(engine: BrowserEngine): LaunchOptions {
+    return engine === "chromium" ? PageCaptureRunner.buildChromiumLaunchOptions() : {}
+  }
+
+  private static buildChromiumLaunchOptions(): LaunchOptions {
     const args: string[] = []
 
     const hostResolverRules = Array.from(config.CHROMIUM_HOST_RESOLVER_RULES)
@@ -227,9 +490,13 @@ export class PageCaptureRunner {
     return { args }
   }
 
-  private notifyRunFolderObservers(runFolder: string): void {
+  private describeProfiles(): string {
+    return this.variants.map((variant) => `${variant.profile.name} (${variant.engine})`).join("/")
+  }
+
+  private notifyRunFolderObservers(runFolder: string, resumed: boolean): void {
     for (const observer of this.runFolderObservers) {
-      observer.onRunFolderReady(runFolder)
+      observer.onRunFolderReady(runFolder, resumed)
     }
   }
 
@@ -0,0 +1,144 @@
+import type { ConsoleMessage, Page, Request, Response } from "playwright"
+
+export type PageConsoleEntry =
+  | {
+      type: "console"
+      timestamp: string
+      level: string
+      text: string
+      location: { url: string; lineNumber: number; columnNumber: number }
+    }
+  | { type: "pageerror"; timestamp: string; message: string; stack: string | null }
+  | {
+      type: "requestfailed"
+      timestamp: string
+      url: string
+      method: string
+      resourceType: string
+      errorText: string
+    }
+  | {
+      type: "http-error"
+      timestamp: string
+      url: string
+      method: string
+      resourceType: string
+      status: number
+      statusText: string
+    }
+
+export interface PageConsoleSummary {
+  messages: number
+  errors: number
+  warnings: number
+  pageErrors: number
+  failedRequests: number
+  httpErrors: number
+}
+
+/**
+ * Collects what the page itself reported while it was captured: console messages, uncaught
+ * exceptions, requests that failed, and subresources answered with 4xx or 5xx.
+ */
+export class PageConsoleRecorder {
+  private readonly entries: PageConsoleEntry[] = []
+  private page: Page | null = null
+
+  private readonly onConsole = (message: ConsoleMessage) => {
+    const location = message.location()
+    this.entries.push({
+      type: "console",
+      timestamp: new Date().toISOString(),
+      level: message.type(),
+      text: message.text(),
+      location: {
+        url: location.url,
+        lineNumber: location.lineNumber,
+        columnNumber: location.columnNumber,
+      },
+    })
+  }
+
+  private readonly onPageError = (error: Error) => {
+    this.entries.push({
+      type: "pageerror",
+      timestamp: new Date().toISOString(),
+      message: error.message,
+      stack: error.stack ?? null,
+    })
+  }
+
+  private readonly onRequestFailed = (request: Request) => {
+    if (this.isBlocked(request)) {
+      return
+    }
+
+    this.entries.push({
+      type: "requestfailed",
+      timestamp: new Date().toISOString(),
+      url: request.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      errorText: request.failure()?.errorText ?? "unknown",
+    })
+  }
+
+  private readonly onResponse = (response: Response) => {
+    const request = response.request()
+
+    if (response.status() < 400) {
+      return
+    }
+
+    // The page's own status is already tracked by navigation and fails the capture by itself.
+    if (request.isNavigationRequest() && request.frame() === this.page?.mainFrame()) {
+      return
+    }
+
+    this.entries.push({
+      type: "http-error",
+      timestamp: new Date().toISOString(),
+      url: response.url(),
+      method: request.method(),
+      resourceType: request.resourceType(),
+      status: response.status(),
+      statusText: response.statusText(),
+    })
+  }
+
+  /** `isBlocked` names requests aborted on purpose, such as by a route rule; they are not failures. */
+  constructor(private readonly isBlocked: (request: Request) => boolean = () => false) {}
+
+  start(page: Page): void {
+    this.page = page
+    page.on("console", this.onConsole)
+    page.on("pageerror", this.onPageError)
+    page.on("requestfailed", this.onRequestFailed)
+    page.on("response", this.onResponse)
+  }
+
+  stop(): void {
+    this.page?.off("console", this.onConsole)
+    this.page?.off("pageerror", this.onPageError)
+    this.page?.off("requestfailed", this.onRequestFailed)
+    this.page?.off("response", this.onResponse)
+  }
+
+  getEntries(): ReadonlyArray<PageConsoleEntry> {
+    return this.entries
+  }
+
+  summarize(): PageConsoleSummary {
+    const count = (predicate: (entry: PageConsoleEntry) => boolean) =>
+      this.entries.filter(predicate).length
+
+    return {
+      messages: count((entry) => entry.type === "console"),
+      errors: count((entry) => entry.type === "console" && entry.level === "error"),
+      warnings: count((entry) => entry.type === "console" && entry.level === "warning"),
+      pageErrors: count((entry) => entry.type === "pageerror"),
+      failedRequests: count((entry) => entry.type === "requestfailed"),
+      httpErrors: count((entry) => entry.type === "http-error"),
+    }
+  }
+}
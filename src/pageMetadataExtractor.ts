@@ -0,0 +1,160 @@
+import type { Page } from "playwright"
+
+export interface HreflangAlternate {
+  hreflang: string
+  href: string
+}
+
+export interface PageHeading {
+  level: 1 | 2 | 3
+  text: string
+}
+
+/** A `<script type="application/ld+json">` block; `data` is null when it is not valid JSON. */
+export interface JsonLdBlock {
+  data: unknown
+  error: string | null
+}
+
+/** SEO-relevant metadata of one variant; a tag the page does not have is null or empty. */
+export interface PageMetadata {
+  finalUrl: string
+  title: string | null
+  description: string | null
+  canonical: string | null
+  robots: string | null
+  hreflang: HreflangAlternate[]
+  openGraph: Record<string, string>
+  twitter: Record<string, string>
+  jsonLd: JsonLdBlock[]
+  headings: PageHeading[]
+}
+
+/** A metadata field whose value is not the same in every compared variant. */
+export interface MetadataDifference {
+  /** Top-level field, or `openGraph.<property>` and `twitter.<name>` for single tags. */
+  field: string
+  /** The field's value per variant name; null where the variant does not have it. */
+  values: Record<string, unknown>
+}
+
+// Only what the in-page extractor touches; the tsconfig has no DOM library.
+interface ElementLike {
+  tagName: string
+  textContent: string | null
+  getAttribute(name: string): string | null
+}
+
+interface AnchorLike extends ElementLike {
+  href: string
+}
+
+interface DocumentScope {
+  document: {
+    title: string
+    querySelectorAll<T extends ElementLike = ElementLike>(selector: string): ArrayLike<T>
+  }
+}
+
+/** Reads the title, meta tags, structured data, and heading outline of the page as rendered. */
+export class PageMetadataExtractor {
+  async extract(page: Page): Promise<PageMetadata> {
+    const metadata = await page.evaluate(() => {
+      const { document } = globalThis as unknown as DocumentScope
+      const clean = (value: string | null | undefined) => {
+        const text = value?.replace(/\s+/g, " ").trim()
+        return text ? text : null
+      }
+      const metas = Array.from(document.querySelectorAll("meta"))
+      // Meta names are case-insensitive, and some sites use `property` for Twitter tags.
+      const metaKey = (meta: ElementLike) =>
+        (meta.getAttribute("property") ?? meta.getAttribute("name") ?? "").toLowerCase()
+      const metaContent = (key: string) => {
+        const meta = metas.find((candidate) => metaKey(candidate) === key)
+        return meta ? clean(meta.getAttribute("content")) : null
+      }
+      // Repeated tags such as several `og:image` keep their first value.
+      const metaGroup = (prefix: string) => {
+        const group: Record<string, string> = {}
+
+        for (const meta of metas) {
+          const key = metaKey(meta)
+          const content = clean(meta.getAttribute("content"))
+
+          if (key.startsWith(prefix) && content !== null && !(key in group)) {
+            group[key] = content
+          }
+        }
+
+        return group
+      }
+      const canonical = Array.from(document.querySelectorAll<AnchorLike>('link[rel~="canonical"]'))
+
+      return {
+        title: clean(document.title),
+        description: metaContent("description"),
+        canonical: canonical[0]?.href || null,
+        robots: metaContent("robots"),
+        hreflang: Array.from(
+          document.querySelectorAll<AnchorLike>('link[rel~="alternate"][hreflang]'),
+        ).map((link) => ({ hreflang: link.getAttribute("hreflang") ?? "", href: link.href })),
+        openGraph: metaGroup("og:"),
+        twitter: metaGroup("twitter:"),
+        jsonLd: Array.from(document.querySelectorAll('script[type="application/ld+json"]')).map(
+          (script) => {
+            try {
+              return { data: JSON.parse(script.textContent ?? "") as unknown, error: null }
+            } catch (error) {
+              return { data: null, error: error instanceof Error ? error.message : String(error) }
+            }
+          },
+        ),
+        headings: Array.from(document.querySelectorAll("h1, h2, h3")).map((heading) => ({
+          level: Number(heading.tagName.slice(1)) as 1 | 2 | 3,
+          text: clean(heading.textContent) ?? "",
+        })),
+      }
+    })
+
+    return { finalUrl: page.url(), ...metadata }
+  }
+}
+
+/**
+ * Compares the metadata of several variants of one URL. Open Graph and Twitter tags are compared
+ * one by one so a single changed tag is named; every other field is compared as a whole.
+ */
+export function compareMetadata(
+  variants: ReadonlyArray<{ variant: string; metadata: PageMetadata }>,
+): MetadataDifference[] {
+  const differences: MetadataDifference[] = []
+  const compare = (field: string, read: (metadata: PageMetadata) => unknown) => {
+    const values = Object.fromEntries(
+      variants.map(({ variant, metadata }) => [variant, read(metadata) ?? null]),
+    )
+
+    if (new Set(Object.values(values).map((value) => JSON.stringify(value))).size > 1) {
+      differences.push({ field, values })
+    }
+  }
+
+  compare("finalUrl", (metadata) => metadata.finalUrl)
+  compare("title", (metadata) => metadata.title)
+  compare("description", (metadata) => metadata.description)
+  compare("canonical", (metadata) => metadata.canonical)
+  compare("robots", (metadata) => metadata.robots)
+  compare("hreflang", (metadata) => metadata.hreflang)
+
+  for (const group of ["openGraph", "twitter"] as const) {
+    const keys = new Set(variants.flatMap(({ metadata }) => Object.keys(metadata[group])))
+
+    for (const key of [...keys].sort()) {
+      compare(`${group}.${key}`, (metadata) => metadata[group][key])
+    }
+  }
+
+  compare("jsonLd", (metadata) => metadata.jsonLd)
+  compare("headings", (metadata) => metadata.headings)
+
+  return differences
+}
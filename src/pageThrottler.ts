@@ -0,0 +1,75 @@
+import type { Page } from "playwright"
+
+interface NetworkConditions {
+  /** Round-trip latency in milliseconds. */
+  latencyMs: number
+  downloadKbps: number
+  uploadKbps: number
+}
+
+// Chrome DevTools' 3G presets and Lighthouse's mobile 4G profile.
+const NETWORK_PRESETS = {
+  "slow-3g": { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  "fast-3g": { latencyMs: 563, downloadKbps: 1600, uploadKbps: 750 },
+  "slow-4g": { latencyMs: 150, downloadKbps: 1600, uploadKbps: 750 },
+  "fast-4g": { latencyMs: 60, downloadKbps: 9000, uploadKbps: 1500 },
+} as const satisfies Record<string, NetworkConditions>
+
+export type NetworkThrottlingPreset = keyof typeof NETWORK_PRESETS
+
+export const NETWORK_THROTTLING_PRESETS = Object.keys(NETWORK_PRESETS) as [
+  NetworkThrottlingPreset,
+  ...NetworkThrottlingPreset[],
+]
+
+export interface ThrottlingSettings {
+  /** Slowdown factor of the CPU; 1 runs at full speed. */
+  cpuRate: number
+  network: NetworkThrottlingPreset | null
+}
+
+/** Slows a page's CPU and network down through the Chrome DevTools Protocol (Chromium only). */
+export class PageThrottler {
+  constructor(private readonly settings: ThrottlingSettings) {}
+
+  get isActive(): boolean {
+    return this.settings.cpuRate > 1 || this.settings.network !== null
+  }
+
+  describe(): string {
+    const parts = [
+      this.settings.cpuRate > 1 ? `${this.settings.cpuRate}x CPU slowdown` : null,
+      this.settings.network ? `${this.settings.network} network` : null,
+    ].filter((part) => part !== null)
+    return parts.join(", ")
+  }
+
+  async apply(page: Page): Promise<void> {
+    if (!this.isActive) {
+      return
+    }
+
+    const browserName = page.context().browser()?.browserType().name()
+
+    if (browserName !== undefined && browserName !== "chromium") {
+      throw new Error(`Throttling requires Chromium; this variant runs in ${browserName}.`)
+    }
+
+    const session = await page.context().newCDPSession(page)
+
+    if (this.settings.cpuRate > 1) {
+      await session.send("Emulation.setCPUThrottlingRate", { rate: this.settings.cpuRate })
+    }
+
+    if (this.settings.network) {
+      const conditions = NETWORK_PRESETS[this.settings.network]
+      await session.send("Network.enable")
+      await session.send("Network.emulateNetworkConditions", {
+        offline: false,
+        latency: conditions.latencyMs,
+        downloadThroughput: (conditions.downloadKbps * 1024) / 8,
+        uploadThroughput: (conditions.uploadKbps * 1024) / 8,
+      })
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import type { Page } from "playwright"
+
+export const PDF_PAPER_FORMATS = [
+  "Letter",
+  "Legal",
+  "Tabloid",
+  "Ledger",
+  "A0",
+  "A1",
+  "A2",
+  "A3",
+  "A4",
+  "A5",
+  "A6",
+] as const
+
+export const PDF_MEDIA_TYPES = ["screen", "print"] as const
+
+export interface PdfMargin {
+  top: string
+  right: string
+  bottom: string
+  left: string
+}
+
+export interface PdfRenderOptions {
+  format: (typeof PDF_PAPER_FORMATS)[number]
+  margin: PdfMargin
+  printBackground: boolean
+  media: (typeof PDF_MEDIA_TYPES)[number]
+  headerFooterEnabled: boolean
+  headerTemplate: string
+  footerTemplate: string
+}
+
+export class PdfRenderer {
+  constructor(private readonly options: PdfRenderOptions) {}
+
+  /**
+   * Prints the page to `path` and returns the size in bytes. `{url}` and `{timestamp}` in the
+   * header and footer templates are replaced with the captured URL and the capture time.
+   */
+  async render(page: Page, path: string, url: string, capturedAt: Date): Promise<number> {
+    const browserName = page.context().browser()?.browserType().name()
+
+    if (browserName !== undefined && browserName !== "chromium") {
+      throw new Error(`PDF output requires Chromium; this variant runs in ${browserName}.`)
+    }
+
+    await page.emulateMedia({ media: this.options.media })
+
+    try {
+      const pdf = await page.pdf({
+        path,
+        format: this.options.format,
+        margin: this.options.margin,
+        printBackground: this.options.printBackground,
+        displayHeaderFooter: this.options.headerFooterEnabled,
+        headerTemplate: this.fillTemplate(this.options.headerTemplate, url, capturedAt),
+        footerTemplate: this.fillTemplate(this.options.footerTemplate, url, capturedAt),
+      })
+      return pdf.byteLength
+    } finally {
+      // Later phases should see the page exactly as it was captured.
+      await page.emulateMedia({ media: null })
+    }
+  }
+
+  private fillTemplate(template: string, url: string, capturedAt: Date): string {
+    return template
+      .replaceAll("{url}", PdfRenderer.escapeHtml(url))
+      .replaceAll("{timestamp}", PdfRenderer.escapeHtml(capturedAt.toISOString()))
+  }
+
+  private static escapeHtml(value: string): string {
+    return value
+      .replaceAll("&", "&amp;")
+      .replaceAll("<", "&lt;")
+      .replaceAll(">", "&gt;")
+      .replaceAll('"', "&quot;")
+  }
+}
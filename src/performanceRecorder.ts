@@ -0,0 +1,216 @@
+import type { Page, Request } from "playwright"
+
+/** Load metrics of one variant; a metric the engine does not report is null. */
+export interface PerformanceMetrics {
+  timeToFirstByteMs: number | null
+  domContentLoadedMs: number | null
+  loadMs: number | null
+  firstContentfulPaintMs: number | null
+  largestContentfulPaintMs: number | null
+  cumulativeLayoutShift: number | null
+  transferredBytes: number
+  requestCount: number
+  jsHeapUsedBytes: number | null
+}
+
+export type PerformanceMetricName = keyof PerformanceMetrics
+
+export interface PerformanceMetricAggregate {
+  median: number
+  max: number
+}
+
+/** Median and maximum of every metric over the variants that reported it. */
+export type PerformanceAggregate = { samples: number } & Record<
+  PerformanceMetricName,
+  PerformanceMetricAggregate | null
+>
+
+interface PageTimings {
+  timeToFirstByteMs: number | null
+  domContentLoadedMs: number | null
+  loadMs: number | null
+  firstContentfulPaintMs: number | null
+  largestContentfulPaintMs: number | null
+  cumulativeLayoutShift: number | null
+  jsHeapUsedBytes: number | null
+}
+
+// Only what the in-page collector touches; the tsconfig has no DOM library.
+interface PerformanceEntryLike {
+  name: string
+  entryType: string
+  startTime: number
+  value?: number
+  hadRecentInput?: boolean
+  responseStart?: number
+  domContentLoadedEventEnd?: number
+  loadEventEnd?: number
+}
+
+interface PerformanceScope {
+  performance: {
+    getEntriesByType(type: string): PerformanceEntryLike[]
+    getEntriesByName(name: string): PerformanceEntryLike[]
+    memory?: { usedJSHeapSize: number }
+  }
+  PerformanceObserver: {
+    new (
+      callback: (list: { getEntries(): PerformanceEntryLike[] }) => void,
+    ): { observe(options: { type: string; buffered: boolean }): void; disconnect(): void }
+    supportedEntryTypes?: ReadonlyArray<string>
+  }
+  setTimeout(callback: () => void, ms: number): unknown
+}
+
+/**
+ * Counts the requests of a page and their transferred bytes from navigation on, then reads the
+ * page's navigation, paint, and layout shift timings once it has loaded.
+ */
+export class PerformanceRecorder {
+  private page: Page | null = null
+  private requestCount = 0
+  private readonly sizes: Promise<number>[] = []
+
+  private readonly onRequestFinished = (request: Request) => {
+    this.requestCount += 1
+    this.sizes.push(
+      request.sizes().then(
+        (sizes) => sizes.responseHeadersSize + sizes.responseBodySize,
+        () => 0,
+      ),
+    )
+  }
+
+  private readonly onRequestFailed = () => {
+    this.requestCount += 1
+  }
+
+  start(page: Page): void {
+    this.page = page
+    page.on("requestfinished", this.onRequestFinished)
+    page.on("requestfailed", this.onRequestFailed)
+  }
+
+  /** Stops counting requests and returns the metrics of the page as loaded so far. */
+  async collect(): Promise<PerformanceMetrics> {
+    const page = this.page
+
+    if (!page) {
+      throw new Error("The performance recorder was not started.")
+    }
+
+    page.off("requestfinished", this.onRequestFinished)
+    page.off("requestfailed", this.onRequestFailed)
+    this.page = null
+
+    const timings = await PerformanceRecorder.readPageTimings(page)
+    const transferredBytes = (await Promise.all(this.sizes)).reduce((sum, size) => sum + size, 0)
+
+    return { ...timings, transferredBytes, requestCount: this.requestCount }
+  }
+
+  // LCP and layout shifts are only exposed to observers; buffered ones are delivered right away.
+  private static readPageTimings(page: Page): Promise<PageTimings> {
+    return page.evaluate(async () => {
+      const scope = globalThis as unknown as PerformanceScope
+      const observe = (type: string) =>
+        new Promise<PerformanceEntryLike[]>((resolve) => {
+          if (!scope.PerformanceObserver.supportedEntryTypes?.includes(type)) {
+            resolve([])
+            return
+          }
+
+          const entries: PerformanceEntryLike[] = []
+          const observer = new scope.PerformanceObserver((list) => {
+            entries.push(...list.getEntries())
+          })
+          observer.observe({ type, buffered: true })
+          scope.setTimeout(() => {
+            observer.disconnect()
+            resolve(entries)
+          }, 50)
+        })
+      const positive = (value: number | undefined) =>
+        value !== undefined && value > 0 ? Math.round(value) : null
+
+      const [navigation] = scope.performance.getEntriesByType("navigation")
+      const [firstContentfulPaint] = scope.performance.getEntriesByName("first-contentful-paint")
+      const [largestContentfulPaints, layoutShifts] = await Promise.all([
+        observe("largest-contentful-paint"),
+        observe("layout-shift"),
+      ])
+      const largestContentfulPaint = largestContentfulPaints.at(-1)
+      const cumulativeLayoutShift = scope.PerformanceObserver.supportedEntryTypes?.includes(
+        "layout-shift",
+      )
+        ? layoutShifts
+            .filter((shift) => !shift.hadRecentInput)
+            .reduce((sum, shift) => sum + (shift.value ?? 0), 0)
+        : null
+
+      return {
+        timeToFirstByteMs: positive(navigation?.responseStart),
+        domContentLoadedMs: positive(navigation?.domContentLoadedEventEnd),
+        loadMs: positive(navigation?.loadEventEnd),
+        firstContentfulPaintMs: positive(firstContentfulPaint?.startTime),
+        largestContentfulPaintMs: positive(largestContentfulPaint?.startTime),
+        cumulativeLayoutShift:
+          cumulativeLayoutShift === null ? null : Math.round(cumulativeLayoutShift * 1000) / 1000,
+        jsHeapUsedBytes: scope.performance.memory?.usedJSHeapSize ?? null,
+      }
+    })
+  }
+}
+
+export function aggregatePerformance(
+  samples: ReadonlyArray<PerformanceMetrics>,
+): PerformanceAggregate {
+  const names: PerformanceMetricName[] = [
+    "timeToFirstByteMs",
+    "domContentLoadedMs",
+    "loadMs",
+    "firstContentfulPaintMs",
+    "largestContentfulPaintMs",
+    "cumulativeLayoutShift",
+    "transferredBytes",
+    "requestCount",
+    "jsHeapUsedBytes",
+  ]
+  const aggregate = { samples: samples.length } as PerformanceAggregate
+
+  for (const name of names) {
+    const values = samples
+      .map((sample) => sample[name])
+      .filter((value) => value !== null)
+      .sort((a, b) => a - b)
+    const middle = Math.floor(values.length / 2)
+    const median =
+      values.length % 2 === 1
+        ? values[middle]
+        : ((values[middle - 1] ?? 0) + (values[middle] ?? 0)) / 2
+
+    aggregate[name] =
+      values.length === 0 || median === undefined
+        ? null
+        : { median: Math.round(median * 1000) / 1000, max: values[values.length - 1] ?? median }
+  }
+
+  return aggregate
+}
+
+/** The headline metrics as a short line, e.g. "TTFB 120ms, FCP 480ms, LCP 910ms, CLS 0.02". */
+export function describePerformance(
+  metrics: Pick<
+    PerformanceMetrics,
+    | "timeToFirstByteMs"
+    | "firstContentfulPaintMs"
+    | "largestContentfulPaintMs"
+    | "cumulativeLayoutShift"
+  >,
+): string {
+  const ms = (value: number | null) => (value === null ? "n/a" : `${Math.round(value)}ms`)
+  const cls = metrics.cumulativeLayoutShift
+
+  return `TTFB ${ms(metrics.timeToFirstByteMs)}, FCP ${ms(metrics.firstContentfulPaintMs)}, LCP ${ms(metrics.largestContentfulPaintMs)}, CLS ${cls === null ? "n/a" : Math.round(cls * 1000) / 1000}`
+}
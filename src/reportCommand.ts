@@ -0,0 +1,123 @@
+import type { CliCommand } from "./cliCommand"
+import { describePerformance } from "./performanceRecorder"
+import { describeRouteRuleCount } from "./requestRouter"
+import { type RunManifestLink, RunManifestWriter } from "./runManifestWriter"
+
+export class ReportCommand implements CliCommand {
+  async run(args: ReadonlyArray<string>): Promise<void> {
+    const [runFolder] = args
+
+    if (!runFolder || args.length > 1) {
+      throw new Error("Usage: bun run index.ts report <run-folder>")
+    }
+
+    const manifest = await RunManifestWriter.read(runFolder)
+    const { links, variants, console: pageConsole, accessibility } = manifest.summary
+
+    console.log(
+      `Run ${manifest.runFolder} (${manifest.startedAt} → ${manifest.finishedAt}, ${manifest.durationMs}ms)`,
+    )
+
+    for (const link of manifest.links) {
+      ReportCommand.printLink(link)
+    }
+
+    console.log(
+      `\nLinks: ${links.succeeded}/${links.total} succeeded, ${links.failed} failed. Variants: ${variants.succeeded}/${variants.total} succeeded, ${variants.failed} failed.`,
+    )
+
+    // Manifests written before page console capture have no console totals.
+    if (pageConsole) {
+      console.log(
+        `Page console: ${pageConsole.errors} console error(s), ${pageConsole.pageErrors} uncaught error(s), ${pageConsole.failedRequests} failed request(s), ${pageConsole.httpErrors} HTTP error response(s).`,
+      )
+    }
+
+    // Manifests written before accessibility audits have no accessibility totals.
+    if (accessibility && accessibility.violations > 0) {
+      console.log(
+        `Accessibility: ${accessibility.violations} violated rule(s) on ${accessibility.nodes} element(s) (${accessibility.critical} critical, ${accessibility.serious} serious, ${accessibility.moderate} moderate, ${accessibility.minor} minor).`,
+      )
+    }
+
+    // Manifests written before performance metrics have no performance aggregates.
+    for (const [variant, aggregate] of Object.entries(manifest.summary.performance ?? {})) {
+      console.log(
+        `Performance ${variant} (median of ${aggregate.samples}): ${describePerformance({
+          timeToFirstByteMs: aggregate.timeToFirstByteMs?.median ?? null,
+          firstContentfulPaintMs: aggregate.firstContentfulPaintMs?.median ?? null,
+          largestContentfulPaintMs: aggregate.largestContentfulPaintMs?.median ?? null,
+          cumulativeLayoutShift: aggregate.cumulativeLayoutShift?.median ?? null,
+        })}.`,
+      )
+    }
+
+    // Manifests written before request routing have no routing totals.
+    for (const count of manifest.summary.routing ?? []) {
+      console.log(`Route rule ${describeRouteRuleCount(count)}.`)
+    }
+
+    if (links.failed > 0) {
+      process.exitCode = 1
+    }
+  }
+
+  private static printLink(link: RunManifestLink) {
+    console.log(`${link.success ? "✓" : "✗"} ${link.url} → ${link.folder}`)
+
+    // Manifests written before metadata extraction have no such field.
+    if (link.metadataDifferences && link.metadataDifferences.length > 0) {
+      console.log(`    metadata differs between variants: ${link.metadataDifferences.join(", ")}`)
+    }
+
+    for (const variant of link.variants) {
+      const status = variant.httpStatus === null ? "no response" : `HTTP ${variant.httpStatus}`
+      // Manifests written before engines were recorded have no engine.
+      const engine = variant.engine ? `, ${variant.engine}` : ""
+      const total = variant.timings.total === undefined ? "" : `, ${variant.timings.total}ms`
+      const attempts = variant.attempts.length > 1 ? `, ${variant.attempts.length} attempts` : ""
+      const reused = variant.reused ? ", reused" : ""
+      const pageErrors = variant.console?.pageErrors
+        ? `, ${variant.console.pageErrors} page error(s)`
+        : ""
+      const a11y = variant.accessibility?.violations
+        ? `, ${variant.accessibility.violations} a11y violation(s), ${variant.accessibility.critical} critical`
+        : ""
+      const detail = variant.failure
+        ? ` — ${variant.failure.category} failure during ${variant.failure.phase}: ${variant.failure.message}`
+        : ""
+      console.log(
+        `    ${variant.success ? "✓" : "✗"} ${variant.label} (${status}${engine}${total}${attempts}${reused}${pageErrors}${a11y})${detail}`,
+      )
+
+      if (variant.masking) {
+        const excluded = [
+          ...variant.masking.masks.map(
+            (mask) => `${mask.action} ${mask.selector} (${mask.matched})`,
+          ),
+          ...variant.masking.customCss.map((source) => `css ${source}`),
+        ]
+        console.log(`        masked: ${excluded.join(", ")}`)
+      }
+
+      if (variant.performance) {
+        console.log(`        performance: ${describePerformance(variant.performance)}`)
+      }
+
+      const routed = (variant.routing ?? []).filter((count) => count.requests > 0)
+
+      if (routed.length > 0) {
+        console.log(`        routed: ${routed.map(describeRouteRuleCount).join(", ")}`)
+      }
+
+      // Manifests written before warnings were recorded have no such field.
+      for (const warning of variant.warnings ?? []) {
+        console.log(`        ! ${warning.phase}: ${warning.message}`)
+      }
+    }
+
+    if (!link.success && link.variants.length === 0 && link.error) {
+      console.log(`    ${link.error}`)
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import type { BrowserContext, Request, Route, WebSocketRoute } from "playwright"
+import { matchesDomain, type RouteRule } from "./routeRule"
+import { UrlPatternMatcher } from "./urlPatternMatcher"
+
+/** How many requests of a variant one routing rule handled. */
+export interface RouteRuleCount {
+  rule: string
+  action: RouteRule["action"]
+  requests: number
+}
+
+interface CompiledRule {
+  rule: RouteRule
+  url: UrlPatternMatcher | null
+  count: number
+}
+
+/**
+ * Applies the routing rules to every request of a context. Rules are checked in order: header
+ * rules accumulate, and the first block or fulfill rule that matches answers the request.
+ */
+export class RequestRouter {
+  private readonly rules: ReadonlyArray<CompiledRule>
+  private readonly blocked = new WeakSet<Request>()
+
+  constructor(rules: ReadonlyArray<RouteRule>) {
+    this.rules = rules.map((rule) => ({
+      rule,
+      url: rule.url === undefined ? null : new UrlPatternMatcher([rule.url], []),
+      count: 0,
+    }))
+  }
+
+  // Registered after the auth routes so it runs first; header rewrites fall back to them.
+  async attach(context: BrowserContext): Promise<void> {
+    if (this.rules.length === 0) {
+      return
+    }
+
+    await context.route("**/*", (route) => this.handle(route))
+
+    // route() never sees WebSocket connections, so block rules that can match one also get a
+    // WebSocket route; connections no rule blocks are passed through to the server.
+    if (this.rules.some(({ rule }) => RequestRouter.blocksWebSockets(rule))) {
+      await context.routeWebSocket(
+        () => true,
+        (webSocket) => this.handleWebSocket(webSocket),
+      )
+    }
+  }
+
+  /** Whether a block rule aborted the request, as opposed to the network or the page. */
+  hasBlocked(request: Request): boolean {
+    return this.blocked.has(request)
+  }
+
+  getCounts(): RouteRuleCount[] {
+    return this.rules.map(({ rule, count }) => ({
+      rule: rule.name,
+      action: rule.action,
+      requests: count,
+    }))
+  }
+
+  private async handle(route: Route) {
+    const request = route.request()
+    let headers: Record<string, string> | null = null
+
+    for (const compiled of this.rules) {
+      const { rule } = compiled
+
+      if (!RequestRouter.matches(compiled, request.url(), request.resourceType())) {
+        continue
+      }
+
+      compiled.count += 1
+
+      if (rule.action === "block") {
+        this.blocked.add(request)
+        await route.abort("blockedbyclient")
+        return
+      }
+
+      if (rule.action === "fulfill") {
+        await route.fulfill({
+          path: rule.file,
+          status: rule.status,
+          contentType: rule.contentType,
+          headers: rule.headers,
+        })
+        return
+      }
+
+      headers ??= { ...request.headers() }
+
+      for (const name of rule.remove) {
+        delete headers[name.toLowerCase()]
+      }
+
+      for (const [name, value] of Object.entries(rule.set)) {
+        headers[name.toLowerCase()] = value
+      }
+    }
+
+    await route.fallback(headers ? { headers } : undefined)
+  }
+
+  private async handleWebSocket(webSocket: WebSocketRoute) {
+    for (const compiled of this.rules) {
+      if (
+        compiled.rule.action === "block" &&
+        RequestRouter.matches(compiled, webSocket.url(), "websocket")
+      ) {
+        compiled.count += 1
+        await webSocket.close({ code: 1008, reason: `Blocked by route rule ${compiled.rule.name}` })
+        return
+      }
+    }
+
+    webSocket.connectToServer()
+  }
+
+  private static blocksWebSockets(rule: RouteRule): boolean {
+    return (
+      rule.action === "block" &&
+      (!rule.resourceTypes?.length || rule.resourceTypes.includes("websocket"))
+    )
+  }
+
+  private static matches(
+    { rule, url }: CompiledRule,
+    requestUrl: string,
+    resourceType: string,
+  ): boolean {
+    if (url && !url.matches(requestUrl)) {
+      return false
+    }
+
+    if (rule.domains && rule.domains.length > 0) {
+      const { hostname } = new URL(requestUrl)
+
+      if (!rule.domains.some((domain) => matchesDomain(hostname, domain))) {
+        return false
+      }
+    }
+
+    if (rule.resourceTypes && rule.resourceTypes.length > 0) {
+      return rule.resourceTypes.some((type) => type === resourceType)
+    }
+
+    return true
+  }
+}
+
+/** Adds up the per-variant counts by rule, keeping the order rules were first seen in. */
+export function sumRouteRuleCounts(
+  counts: Iterable<ReadonlyArray<RouteRuleCount>>,
+): RouteRuleCount[] {
+  const totals = new Map<string, RouteRuleCount>()
+
+  for (const variantCounts of counts) {
+    for (const count of variantCounts) {
+      const total = totals.get(count.rule)
+
+      if (total) {
+        total.requests += count.requests
+      } else {
+        totals.set(count.rule, { ...count })
+      }
+    }
+  }
+
+  return [...totals.values()]
+}
+
+/** "blocked 12 request(s)" and the like, for run logs and reports. */
+export function describeRouteRuleCount(count: RouteRuleCount): string {
+  const verb =
+    count.action === "block" ? "blocked" : count.action === "fulfill" ? "fulfilled" : "rewrote"
+  return `${count.rule}: ${verb} ${count.requests} request(s)`
+}
@@ -0,0 +1,30 @@
+import type { FailureCategory } from "./failureCategory"
+
+export interface RetryPolicyOptions {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+  retryOn: ReadonlyArray<FailureCategory>
+}
+
+export class RetryPolicy {
+  private readonly retryOn: ReadonlySet<FailureCategory>
+
+  constructor(private readonly options: RetryPolicyOptions) {
+    this.retryOn = new Set(options.retryOn)
+  }
+
+  get maxAttempts(): number {
+    return Math.max(1, Math.floor(this.options.maxAttempts))
+  }
+
+  shouldRetry(category: FailureCategory, attempt: number): boolean {
+    return attempt < this.maxAttempts && this.retryOn.has(category)
+  }
+
+  /** Exponential backoff: the base delay doubles after every failed attempt, up to the cap. */
+  delayAfter(attempt: number): number {
+    const delay = this.options.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+    return Math.max(0, Math.min(delay, this.options.maxDelayMs))
+  }
+}
@@ -0,0 +1,81 @@
+import { z } from "zod"
+
+export const RESOURCE_TYPES = [
+  "document",
+  "stylesheet",
+  "image",
+  "media",
+  "font",
+  "script",
+  "texttrack",
+  "xhr",
+  "fetch",
+  "eventsource",
+  "websocket",
+  "manifest",
+  "other",
+] as const
+
+export type ResourceType = (typeof RESOURCE_TYPES)[number]
+
+// A rule applies to requests matching every criterion it lists.
+const matchFields = {
+  name: z.string().min(1).optional(),
+  url: z.string().min(1).optional(),
+  domains: z.array(z.string().min(1)).optional(),
+  resourceTypes: z.array(z.enum(RESOURCE_TYPES)).optional(),
+}
+
+const routeRuleSchema = z
+  .discriminatedUnion(
+    "action",
+    [
+      z.object({ action: z.literal("block"), ...matchFields }).strict(),
+      z
+        .object({
+          action: z.literal("headers"),
+          set: z.record(z.string(), z.string()).default({}),
+          remove: z.array(z.string().min(1)).default([]),
+          ...matchFields,
+        })
+        .strict(),
+      z
+        .object({
+          action: z.literal("fulfill"),
+          file: z.string().min(1),
+          status: z.number().int().min(100).max(599).default(200),
+          contentType: z.string().min(1).optional(),
+          headers: z.record(z.string(), z.string()).default({}),
+          ...matchFields,
+        })
+        .strict(),
+    ],
+    { error: "Unknown rule action; expected block, headers, or fulfill" },
+  )
+  .refine(
+    (rule) =>
+      rule.url !== undefined ||
+      (rule.domains?.length ?? 0) > 0 ||
+      (rule.resourceTypes?.length ?? 0) > 0,
+    { message: "A rule needs at least one of url, domains, or resourceTypes" },
+  )
+  // WebSocket connections bypass request routing; they can be refused, but not rewritten.
+  .refine((rule) => rule.action === "block" || !rule.resourceTypes?.includes("websocket"), {
+    message: "WebSocket connections can only be blocked, not fulfilled or given headers",
+    path: ["resourceTypes"],
+  })
+
+export const routeRulesFileSchema = z
+  .object({
+    rules: z.array(routeRuleSchema).min(1, "At least one rule is required"),
+  })
+  .strict()
+
+export type RouteRule = z.infer<typeof routeRuleSchema> & { name: string }
+
+/** True when `hostname` is `domain` or one of its subdomains. */
+export function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.toLowerCase().replace(/^\*?\./, "")
+  const host = hostname.toLowerCase()
+  return host === normalized || host.endsWith(`.${normalized}`)
+}
@@ -0,0 +1,231 @@
+import { joinPath } from "./joinPath"
+import { type ScreenshotDiffOptions, ScreenshotDiffer } from "./screenshotDiffer"
+
+export interface RunComparatorOptions extends ScreenshotDiffOptions {
+  maxChangedPercent: number
+}
+
+export type VariantComparisonStatus =
+  | "unchanged"
+  | "changed"
+  | "missing-candidate"
+  | "missing-baseline"
+  | "error"
+
+export interface VariantComparison {
+  folder: string
+  variant: string
+  status: VariantComparisonStatus
+  changedPercent: number | null
+  changedPixels: number | null
+  diffPath: string | null
+  heightMismatch: boolean
+  error: string | null
+}
+
+export interface RunComparisonResult {
+  baselineDir: string
+  candidateDir: string
+  passed: boolean
+  comparisons: VariantComparison[]
+}
+
+export class RunComparator {
+  static readonly REPORT_FILE_NAME = "comparison.json"
+  private static readonly SCREENSHOT_PATTERN = "*/page.*.png"
+  private static readonly DIFF_SUFFIX = ".diff.png"
+
+  private readonly differ: ScreenshotDiffer
+
+  constructor(
+    private readonly baselineDir: string,
+    private readonly candidateDir: string,
+    private readonly options: RunComparatorOptions,
+  ) {
+    this.differ = new ScreenshotDiffer(options)
+  }
+
+  async compare(): Promise<RunComparisonResult> {
+    const compareStart = Date.now()
+    RunComparator.assertDirectory(this.baselineDir, "Baseline")
+    RunComparator.assertDirectory(this.candidateDir, "Candidate")
+    console.log(
+      `Comparing ${this.candidateDir} against baseline ${this.baselineDir} ` +
+        `(threshold: ${this.options.threshold}, max changed: ${this.options.maxChangedPercent}%).`,
+    )
+
+    const baselineFiles = await RunComparator.listScreenshots(this.baselineDir)
+    const candidateFiles = await RunComparator.listScreenshots(this.candidateDir)
+    const comparisons: VariantComparison[] = []
+
+    for (const relativePath of baselineFiles) {
+      comparisons.push(
+        candidateFiles.has(relativePath)
+          ? await this.compareScreenshot(relativePath)
+          : RunComparator.buildMissing(relativePath, "missing-candidate"),
+      )
+    }
+
+    for (const relativePath of candidateFiles) {
+      if (!baselineFiles.has(relativePath)) {
+        comparisons.push(RunComparator.buildMissing(relativePath, "missing-baseline"))
+      }
+    }
+
+    const result: RunComparisonResult = {
+      baselineDir: this.baselineDir,
+      candidateDir: this.candidateDir,
+      passed: comparisons.every((comparison) => this.isAcceptable(comparison)),
+      comparisons,
+    }
+
+    await this.writeReport(result)
+    this.report(result, compareStart)
+    return result
+  }
+
+  private async compareScreenshot(relativePath: string): Promise<VariantComparison> {
+    const { folder, variant } = RunComparator.parseRelativePath(relativePath)
+    const diffPath = joinPath(
+      this.candidateDir,
+      folder,
+      `page.${variant}${RunComparator.DIFF_SUFFIX}`,
+    )
+
+    try {
+      const diff = await this.differ.diff(
+        joinPath(this.baselineDir, relativePath),
+        joinPath(this.candidateDir, relativePath),
+      )
+      const exceeded = diff.changedPercent > this.options.maxChangedPercent
+      const heightMismatch = diff.baselineSize.height !== diff.candidateSize.height
+      const status: VariantComparisonStatus = diff.changedPixels > 0 ? "changed" : "unchanged"
+      const logLine =
+        `[Compare] ${folder} ${variant}: ${diff.changedPercent.toFixed(3)}% changed ` +
+        `(${diff.changedPixels}/${diff.totalPixels} px${
+          heightMismatch
+            ? `, height ${diff.baselineSize.height}px → ${diff.candidateSize.height}px`
+            : ""
+        }).`
+
+      // Only regressions get a diff image; one left by an earlier comparison no longer applies.
+      if (exceeded) {
+        await ScreenshotDiffer.writeImage(diff, diffPath)
+        console.warn(logLine)
+      } else {
+        await Bun.file(diffPath)
+          .delete()
+          .catch(() => {})
+        console.log(logLine)
+      }
+
+      return {
+        folder,
+        variant,
+        status,
+        changedPercent: diff.changedPercent,
+        changedPixels: diff.changedPixels,
+        diffPath: exceeded ? diffPath : null,
+        heightMismatch,
+        error: null,
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error(`[Compare] ${folder} ${variant}: ${message}`)
+      return {
+        folder,
+        variant,
+        status: "error",
+        changedPercent: null,
+        changedPixels: null,
+        diffPath: null,
+        heightMismatch: false,
+        error: message,
+      }
+    }
+  }
+
+  private isAcceptable(comparison: VariantComparison): boolean {
+    if (comparison.status === "unchanged" || comparison.status === "missing-baseline") {
+      return true
+    }
+
+    if (comparison.status === "changed") {
+      return (comparison.changedPercent ?? 0) <= this.options.maxChangedPercent
+    }
+
+    return false
+  }
+
+  private async writeReport(result: RunComparisonResult) {
+    const reportPath = joinPath(this.candidateDir, RunComparator.REPORT_FILE_NAME)
+    await Bun.write(reportPath, `${JSON.stringify(result, null, 2)}\n`)
+    console.log(`Comparison report written to ${reportPath}.`)
+  }
+
+  private report(result: RunComparisonResult, compareStart: number) {
+    const exceeded = result.comparisons.filter((comparison) => !this.isAcceptable(comparison))
+    const changed = result.comparisons.filter((comparison) => comparison.status === "changed")
+
+    console.log(
+      `\nComparison finished in ${Math.max(0, Date.now() - compareStart)}ms. ` +
+        `Variants: ${result.comparisons.length}, Changed: ${changed.length}, ` +
+        `Over threshold or missing: ${exceeded.length}.`,
+    )
+
+    if (!result.passed) {
+      process.exitCode = 1
+    }
+  }
+
+  private static buildMissing(
+    relativePath: string,
+    status: "missing-candidate" | "missing-baseline",
+  ): VariantComparison {
+    const { folder, variant } = RunComparator.parseRelativePath(relativePath)
+    const message =
+      status === "missing-candidate"
+        ? "Screenshot is missing from the candidate run."
+        : "Screenshot is missing from the baseline run."
+    const log = status === "missing-candidate" ? console.warn : console.log
+    log(`[Compare] ${folder} ${variant}: ${message}`)
+
+    return {
+      folder,
+      variant,
+      status,
+      changedPercent: null,
+      changedPixels: null,
+      diffPath: null,
+      heightMismatch: false,
+      error: status === "missing-candidate" ? message : null,
+    }
+  }
+
+  private static async listScreenshots(runDir: string): Promise<Set<string>> {
+    const glob = new Bun.Glob(RunComparator.SCREENSHOT_PATTERN)
+    const files = new Set<string>()
+
+    for await (const relativePath of glob.scan({ cwd: runDir, onlyFiles: true })) {
+      const normalized = relativePath.replace(/\\/g, "/")
+      if (!normalized.endsWith(RunComparator.DIFF_SUFFIX)) {
+        files.add(normalized)
+      }
+    }
+
+    return new Set([...files].sort())
+  }
+
+  private static parseRelativePath(relativePath: string): { folder: string; variant: string } {
+    const [folder = "", fileName = ""] = relativePath.split("/")
+    const variant = fileName.replace(/^page\./, "").replace(/\.png$/, "")
+    return { folder, variant }
+  }
+
+  private static assertDirectory(dir: string, label: string) {
+    const result = Bun.spawnSync(["test", "-d", dir])
+    if (!result.success) {
+      throw new Error(`${label} run folder not found: ${dir}`)
+    }
+  }
+}
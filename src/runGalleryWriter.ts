@@ -0,0 +1,219 @@
+import { joinPath } from "./joinPath"
+import { describePerformance } from "./performanceRecorder"
+import { describeRouteRuleCount } from "./requestRouter"
+import type { RunManifest, RunManifestLink, RunManifestVariant } from "./runManifestWriter"
+
+const GALLERY_STYLES = `
+body { margin: 0; font: 14px/1.4 system-ui, sans-serif; color: #1f2328; background: #f6f8fa; }
+header { position: sticky; top: 0; z-index: 1; padding: 12px 24px; background: #fff; border-bottom: 1px solid #d0d7de; }
+h1 { margin: 0 0 4px; font-size: 18px; }
+.summary { margin: 0 0 8px; color: #59636e; }
+.controls { display: flex; flex-wrap: wrap; gap: 12px; align-items: center; }
+#search { flex: 0 1 360px; padding: 6px 8px; border: 1px solid #d0d7de; border-radius: 6px; }
+#visible-count { color: #59636e; }
+main { padding: 16px 24px; display: grid; gap: 16px; }
+.link { padding: 12px 16px; background: #fff; border: 1px solid #d0d7de; border-left: 4px solid #1a7f37; border-radius: 6px; }
+.link.failure { border-left-color: #cf222e; }
+.link h2 { margin: 0; font-size: 15px; word-break: break-all; }
+.meta { margin: 4px 0 8px; color: #59636e; }
+.tag { padding: 0 6px; border-radius: 10px; background: #ddf4ff; }
+.variants { display: flex; flex-wrap: wrap; gap: 16px; align-items: flex-start; }
+.variant { margin: 0; width: 240px; }
+.variant figcaption { margin-bottom: 4px; }
+.thumb { display: block; height: 320px; overflow: hidden; border: 1px solid #d0d7de; border-radius: 4px; background: #eaeef2; }
+.thumb img { display: block; width: 100%; }
+.thumb.missing { display: flex; align-items: center; justify-content: center; color: #59636e; }
+.badge { display: inline-block; margin-left: 4px; padding: 0 6px; border-radius: 10px; font-size: 12px; background: #eaeef2; }
+.badge.success { background: #dafbe1; color: #1a7f37; }
+.badge.failure { background: #ffebe9; color: #cf222e; }
+.error, .warning { margin: 4px 0; padding: 4px 6px; border-radius: 4px; word-break: break-word; }
+.error { background: #ffebe9; color: #82071e; }
+.warning { background: #fff8c5; color: #633c01; }
+.artifacts { margin: 4px 0; }
+details table { border-collapse: collapse; font-size: 12px; }
+details td { padding: 0 8px 0 0; }
+[hidden] { display: none !important; }
+`
+
+const GALLERY_SCRIPT = `
+(function () {
+  var search = document.getElementById("search");
+  var count = document.getElementById("visible-count");
+  var links = Array.prototype.slice.call(document.querySelectorAll("section.link"));
+  function update() {
+    var query = search.value.trim().toLowerCase();
+    var status = document.querySelector("input[name=status]:checked").value;
+    var visible = 0;
+    links.forEach(function (link) {
+      var show = (status === "all" || link.dataset.status === status) && link.dataset.url.indexOf(query) !== -1;
+      link.hidden = !show;
+      if (show) visible++;
+    });
+    count.textContent = visible + " of " + links.length + " URL(s) shown";
+  }
+  search.addEventListener("input", update);
+  document.querySelectorAll("input[name=status]").forEach(function (input) {
+    input.addEventListener("change", update);
+  });
+  update();
+})();
+`
+
+/**
+ * Writes `index.html` into a run folder: one card per URL with the screenshots of every variant
+ * side by side. The page is static, references artifacts by relative path, and inlines its styles
+ * and script so it works when opened straight from the file system.
+ */
+export class RunGalleryWriter {
+  static readonly FILE_NAME = "index.html"
+
+  constructor(private readonly runFolder: string) {}
+
+  async write(manifest: RunManifest): Promise<string> {
+    const galleryPath = joinPath(this.runFolder, RunGalleryWriter.FILE_NAME)
+    await Bun.write(galleryPath, this.render(manifest))
+    return galleryPath
+  }
+
+  private render(manifest: RunManifest): string {
+    const { links, variants } = manifest.summary
+    const title = `Capture run ${manifest.startedAt}`
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${GALLERY_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="summary">
+    ${links.total} URL(s): ${links.succeeded} succeeded, ${links.failed} failed ·
+    ${variants.total} variant(s): ${variants.succeeded} succeeded, ${variants.failed} failed ·
+    ${formatDuration(manifest.durationMs)}
+  </p>
+  <div class="controls">
+    <input id="search" type="search" placeholder="Search by URL" autocomplete="off">
+    <label><input type="radio" name="status" value="all" checked> All</label>
+    <label><input type="radio" name="status" value="success"> Succeeded</label>
+    <label><input type="radio" name="status" value="failure"> Failed</label>
+    <span id="visible-count"></span>
+  </div>
+</header>
+<main>
+${manifest.links.map((link) => this.renderLink(link)).join("\n")}
+</main>
+<script>${GALLERY_SCRIPT}</script>
+</body>
+</html>
+`
+  }
+
+  private renderLink(link: RunManifestLink): string {
+    const status = link.success ? "success" : "failure"
+    const meta = [
+      `<a href="${escapeHtml(RunGalleryWriter.href(link.folder))}/">${escapeHtml(link.folder)}</a>`,
+      ...link.tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`),
+      link.discoveredFrom
+        ? `depth ${link.depth}, found on ${escapeHtml(link.discoveredFrom)}`
+        : undefined,
+      link.metadataDifferences && link.metadataDifferences.length > 0
+        ? `<a class="badge failure" href="${escapeHtml(RunGalleryWriter.href(link.folder))}/meta.diff.json" title="${escapeHtml(link.metadataDifferences.join("\n"))}">${link.metadataDifferences.length} metadata difference(s)</a>`
+        : undefined,
+    ].filter((part) => part !== undefined)
+
+    return `<section class="link ${status}" data-status="${status}" data-url="${escapeHtml(link.url.toLowerCase())}">
+  <h2><span class="badge ${status}">${link.success ? "OK" : "FAILED"}</span> <a href="${escapeHtml(link.url)}">${escapeHtml(link.url)}</a></h2>
+  <p class="meta">${meta.join(" · ")}</p>
+  ${!link.success && link.variants.length === 0 && link.error ? `<p class="error">${escapeHtml(link.error)}</p>` : ""}
+  <div class="variants">
+${link.variants.map((variant) => this.renderVariant(variant)).join("\n")}
+  </div>
+</section>`
+  }
+
+  private renderVariant(variant: RunManifestVariant): string {
+    const screenshot = variant.artifacts.find((artifact) => artifact.kind === "screenshot")
+    const routed = (variant.routing ?? []).filter((count) => count.requests > 0)
+    const status = variant.success ? "success" : "failure"
+    const badges = [
+      `<span class="badge ${status}">${variant.success ? "OK" : escapeHtml(variant.failure?.category ?? "FAILED")}</span>`,
+      variant.httpStatus === null ? "" : `<span class="badge">HTTP ${variant.httpStatus}</span>`,
+      variant.engine ? `<span class="badge">${escapeHtml(variant.engine)}</span>` : "",
+      variant.reused ? `<span class="badge">reused</span>` : "",
+      variant.attempts.length > 1
+        ? `<span class="badge">${variant.attempts.length} attempts</span>`
+        : "",
+      variant.console?.pageErrors
+        ? `<span class="badge failure">${variant.console.pageErrors} page error(s)</span>`
+        : "",
+      variant.console && variant.console.failedRequests + variant.console.httpErrors > 0
+        ? `<span class="badge">${variant.console.failedRequests + variant.console.httpErrors} failed request(s)</span>`
+        : "",
+      variant.accessibility?.violations
+        ? `<span class="badge${variant.accessibility.critical > 0 ? " failure" : ""}">${variant.accessibility.violations} a11y violation(s)</span>`
+        : "",
+      variant.performance
+        ? `<span class="badge" title="${escapeHtml(describePerformance(variant.performance))}">LCP ${variant.performance.largestContentfulPaintMs === null ? "n/a" : `${Math.round(variant.performance.largestContentfulPaintMs)}ms`}</span>`
+        : "",
+      routed.length > 0
+        ? `<span class="badge" title="${escapeHtml(routed.map(describeRouteRuleCount).join("\n"))}">${routed.reduce((sum, count) => sum + count.requests, 0)} routed request(s)</span>`
+        : "",
+    ].join("")
+    const thumbnail = screenshot
+      ? `<a class="thumb" href="${escapeHtml(RunGalleryWriter.href(screenshot.path))}"><img src="${escapeHtml(RunGalleryWriter.href(screenshot.path))}" alt="${escapeHtml(variant.label)} screenshot" loading="lazy"></a>`
+      : `<div class="thumb missing">No screenshot</div>`
+    const artifactLinks = variant.artifacts
+      .filter((artifact) => artifact.kind !== "screenshot")
+      .map(
+        (artifact) =>
+          `<a href="${escapeHtml(RunGalleryWriter.href(artifact.path))}">${escapeHtml(artifact.kind)}</a>`,
+      )
+    const timings = Object.entries(variant.timings)
+      .filter(([phase]) => phase !== "total")
+      .map(([phase, ms]) => `<tr><td>${escapeHtml(phase)}</td><td>${formatDuration(ms)}</td></tr>`)
+      .join("")
+    const notes = [
+      variant.failure
+        ? `<p class="error">${escapeHtml(variant.failure.phase)}: ${escapeHtml(variant.failure.message)}</p>`
+        : "",
+      ...(variant.warnings ?? []).map(
+        (warning) =>
+          `<p class="warning">${escapeHtml(warning.phase)}: ${escapeHtml(warning.message)}</p>`,
+      ),
+    ].join("")
+
+    return `    <figure class="variant ${status}">
+      <figcaption><strong>${escapeHtml(variant.label)}</strong> ${badges}</figcaption>
+      ${thumbnail}
+      ${notes}
+      <p class="artifacts">${artifactLinks.join(" · ")}</p>
+      ${
+        variant.timings.total === undefined
+          ? ""
+          : `<details><summary>${formatDuration(variant.timings.total)}</summary><table>${timings}</table></details>`
+      }
+    </figure>`
+  }
+
+  // Artifact paths are relative to the run folder, which is where index.html lives.
+  private static href(path: string): string {
+    return path.split("/").map(encodeURIComponent).join("/")
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#39;")
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`
+}
@@ -0,0 +1,249 @@
+import type { AccessibilitySummary } from "./accessibilityAuditor"
+import type { BrowserEngine } from "./browserEngine"
+import type { CaptureOutcome } from "./captureOutcome"
+import { joinPath } from "./joinPath"
+import type { PageConsoleSummary } from "./pageConsoleRecorder"
+import {
+  aggregatePerformance,
+  type PerformanceAggregate,
+  type PerformanceMetrics,
+} from "./performanceRecorder"
+import { type RouteRuleCount, sumRouteRuleCounts } from "./requestRouter"
+import type {
+  VariantArtifact,
+  VariantAttempt,
+  VariantFailure,
+  VariantMasking,
+  VariantOutcome,
+  VariantWarning,
+} from "./variantOutcome"
+
+export interface RunManifestTiming {
+  startedAt: Date
+  finishedAt: Date
+}
+
+export interface RunManifestCounts {
+  total: number
+  succeeded: number
+  failed: number
+}
+
+export interface RunManifestVariant {
+  name: string
+  label: string
+  engine: BrowserEngine | null
+  success: boolean
+  reused: boolean
+  httpStatus: number | null
+  navigationStrategy: string | null
+  timings: Record<string, number>
+  artifacts: VariantArtifact[]
+  failure: VariantFailure | null
+  attempts: VariantAttempt[]
+  warnings: VariantWarning[]
+  masking: VariantMasking | null
+  console: PageConsoleSummary | null
+  routing: RouteRuleCount[]
+  accessibility: AccessibilitySummary | null
+  performance: PerformanceMetrics | null
+}
+
+export interface RunManifestLink {
+  url: string
+  folder: string
+  tags: string[]
+  depth: number
+  discoveredFrom: string | null
+  success: boolean
+  error: string | null
+  /** Metadata fields that differ between the link's variants; null when not compared. */
+  metadataDifferences: string[] | null
+  variants: RunManifestVariant[]
+}
+
+export interface RunManifest {
+  schemaVersion: number
+  runFolder: string
+  startedAt: string
+  finishedAt: string
+  durationMs: number
+  summary: {
+    links: RunManifestCounts
+    variants: RunManifestCounts
+    /** Page console totals over all variants that recorded them. */
+    console: PageConsoleSummary
+    /** Requests each routing rule blocked, fulfilled, or rewrote, over all variants. */
+    routing: RouteRuleCount[]
+    /** Accessibility violation totals over all audited variants. */
+    accessibility: AccessibilitySummary
+    /** Performance metrics per variant name, aggregated over all links. */
+    performance: Record<string, PerformanceAggregate>
+  }
+  links: RunManifestLink[]
+}
+
+export class RunManifestWriter {
+  static readonly FILE_NAME = "manifest.json"
+  static readonly SCHEMA_VERSION = 1
+
+  constructor(private readonly runFolder: string) {}
+
+  async write(results: ReadonlyArray<CaptureOutcome>, timing: RunManifestTiming): Promise<string> {
+    const manifestPath = joinPath(this.runFolder, RunManifestWriter.FILE_NAME)
+    const manifest = this.buildManifest(results, timing)
+    await Bun.write(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`)
+    return manifestPath
+  }
+
+  /** Reads a manifest previously written to the given run folder. */
+  static async read(runFolder: string): Promise<RunManifest> {
+    const manifestPath = joinPath(runFolder, RunManifestWriter.FILE_NAME)
+    const file = Bun.file(manifestPath)
+
+    if (!(await file.exists())) {
+      throw new Error(`No ${RunManifestWriter.FILE_NAME} found in ${runFolder}`)
+    }
+
+    const manifest = (await file.json()) as RunManifest
+
+    if (manifest.schemaVersion !== RunManifestWriter.SCHEMA_VERSION) {
+      throw new Error(
+        `Unsupported manifest schema version ${manifest.schemaVersion} in ${manifestPath}; expected ${RunManifestWriter.SCHEMA_VERSION}`,
+      )
+    }
+
+    return manifest
+  }
+
+  private buildManifest(
+    results: ReadonlyArray<CaptureOutcome>,
+    timing: RunManifestTiming,
+  ): RunManifest {
+    const variants = results.flatMap((result) => result.variants)
+    const succeededLinks = results.filter((result) => result.success).length
+    const succeededVariants = variants.filter((variant) => variant.success).length
+
+    return {
+      schemaVersion: RunManifestWriter.SCHEMA_VERSION,
+      runFolder: this.runFolder,
+      startedAt: timing.startedAt.toISOString(),
+      finishedAt: timing.finishedAt.toISOString(),
+      durationMs: Math.max(0, timing.finishedAt.getTime() - timing.startedAt.getTime()),
+      summary: {
+        links: {
+          total: results.length,
+          succeeded: succeededLinks,
+          failed: results.length - succeededLinks,
+        },
+        variants: {
+          total: variants.length,
+          succeeded: succeededVariants,
+          failed: variants.length - succeededVariants,
+        },
+        console: RunManifestWriter.sumConsole(variants),
+        routing: sumRouteRuleCounts(variants.map((variant) => variant.routing)),
+        accessibility: RunManifestWriter.sumAccessibility(variants),
+        performance: RunManifestWriter.aggregatePerformanceByVariant(variants),
+      },
+      links: results.map((result) => ({
+        url: result.url,
+        folder: this.toRelativePath(result.folder),
+        tags: [...result.target.tags],
+        depth: result.target.depth ?? 0,
+        discoveredFrom: result.target.discoveredFrom ?? null,
+        success: result.success,
+        error: result.error ?? null,
+        metadataDifferences:
+          result.metadataDifferences?.map((difference) => difference.field) ?? null,
+        variants: result.variants.map((variant) => this.serializeVariant(variant)),
+      })),
+    }
+  }
+
+  private serializeVariant(variant: VariantOutcome): RunManifestVariant {
+    return {
+      name: variant.variant,
+      label: variant.label,
+      engine: variant.engine,
+      success: variant.success,
+      reused: variant.reused,
+      httpStatus: variant.httpStatus,
+      navigationStrategy: variant.navigationStrategy,
+      timings: { ...variant.timings },
+      artifacts: variant.artifacts.map((artifact) => ({
+        kind: artifact.kind,
+        path: this.toRelativePath(artifact.path),
+        bytes: artifact.bytes,
+      })),
+      failure: variant.failure ?? null,
+      attempts: variant.attempts.map((attempt) => ({ ...attempt })),
+      warnings: variant.warnings.map((warning) => ({ ...warning })),
+      masking: variant.masking,
+      console: variant.console,
+      routing: variant.routing.map((count) => ({ ...count })),
+      accessibility: variant.accessibility,
+      performance: variant.performance,
+    }
+  }
+
+  private static sumConsole(variants: ReadonlyArray<VariantOutcome>): PageConsoleSummary {
+    const total: PageConsoleSummary = {
+      messages: 0,
+      errors: 0,
+      warnings: 0,
+      pageErrors: 0,
+      failedRequests: 0,
+      httpErrors: 0,
+    }
+
+    for (const summary of variants.map((variant) => variant.console)) {
+      for (const key of Object.keys(total) as Array<keyof PageConsoleSummary>) {
+        total[key] += summary?.[key] ?? 0
+      }
+    }
+
+    return total
+  }
+
+  private static sumAccessibility(variants: ReadonlyArray<VariantOutcome>): AccessibilitySummary {
+    const total: AccessibilitySummary = {
+      violations: 0,
+      nodes: 0,
+      critical: 0,
+      serious: 0,
+      moderate: 0,
+      minor: 0,
+    }
+
+    for (const summary of variants.map((variant) => variant.accessibility)) {
+      for (const key of Object.keys(total) as Array<keyof AccessibilitySummary>) {
+        total[key] += summary?.[key] ?? 0
+      }
+    }
+
+    return total
+  }
+
+  // Desktop and mobile numbers differ too much to be meaningful in a single aggregate.
+  private static aggregatePerformanceByVariant(
+    variants: ReadonlyArray<VariantOutcome>,
+  ): Record<string, PerformanceAggregate> {
+    const samples = new Map<string, PerformanceMetrics[]>()
+
+    for (const variant of variants) {
+      if (variant.performance) {
+        samples.set(variant.variant, [...(samples.get(variant.variant) ?? []), variant.performance])
+      }
+    }
+
+    return Object.fromEntries(
+      [...samples].map(([name, metrics]) => [name, aggregatePerformance(metrics)]),
+    )
+  }
+
+  private toRelativePath(path: string): string {
+    const prefix = `${this.runFolder}/`
+    return path.startsWith(prefix) ? path.slice(prefix.length) : path
+  }
+}
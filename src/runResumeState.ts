@@ -0,0 +1,220 @@
+import { type CaptureTarget, createCaptureTarget } from "./captureTarget"
+import type { CaptureVariant } from "./captureVariant"
+import { joinPath } from "./joinPath"
+import { LinkCaptureTask } from "./linkCaptureTask"
+import {
+  type RunManifest,
+  type RunManifestLink,
+  type RunManifestVariant,
+  RunManifestWriter,
+} from "./runManifestWriter"
+import { type VariantArtifact, VariantOutcome } from "./variantOutcome"
+
+export interface RunResumeOptions {
+  /** Recapture only the variants the previous manifest records as failed. */
+  failuresOnly: boolean
+}
+
+/**
+ * Knows what an earlier run left behind in its folder and decides which variants can be
+ * carried over instead of being captured again.
+ */
+export class RunResumeState {
+  private static readonly PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+  private readonly linksByUrl: ReadonlyMap<string, RunManifestLink>
+
+  private constructor(
+    readonly runFolder: string,
+    manifest: RunManifest | null,
+    private readonly options: RunResumeOptions,
+  ) {
+    this.linksByUrl = new Map((manifest?.links ?? []).map((link) => [link.url, link]))
+  }
+
+  static async load(runFolder: string, options: RunResumeOptions): Promise<RunResumeState> {
+    const absoluteFolder = runFolder.startsWith("/")
+      ? runFolder
+      : joinPath(process.cwd(), runFolder)
+
+    if (!Bun.spawnSync(["test", "-d", absoluteFolder]).success) {
+      throw new Error(`Run folder to resume not found: ${absoluteFolder}`)
+    }
+
+    const hasManifest = await Bun.file(
+      joinPath(absoluteFolder, RunManifestWriter.FILE_NAME),
+    ).exists()
+
+    if (!hasManifest && options.failuresOnly) {
+      throw new Error(
+        `Retrying failures only needs the ${RunManifestWriter.FILE_NAME} of a finished run, but ${absoluteFolder} has none.`,
+      )
+    }
+
+    const manifest = hasManifest ? await RunManifestWriter.read(absoluteFolder) : null
+    console.log(
+      `[Resume] Resuming ${absoluteFolder} (${
+        manifest
+          ? `manifest lists ${manifest.links.length} link(s)`
+          : "no manifest, checking artifacts only"
+      }${options.failuresOnly ? "; retrying failures only" : ""}).`,
+    )
+    return new RunResumeState(absoluteFolder, manifest, options)
+  }
+
+  /**
+   * Returns the targets to process. Links the previous run recorded but the current input does
+   * not list (crawled pages, for example) are added back so the new manifest stays complete;
+   * when retrying failures only, targets the previous run never saw are dropped.
+   */
+  mergeTargets(targets: ReadonlyArray<CaptureTarget>): CaptureTarget[] {
+    const merged: CaptureTarget[] = []
+    const known = new Set<string>()
+
+    for (const target of targets) {
+      if (this.options.failuresOnly && !this.linksByUrl.has(target.url)) {
+        console.log(`[Resume] Skipping ${target.url}: not part of the previous run.`)
+        continue
+      }
+
+      known.add(target.url)
+      merged.push(target)
+    }
+
+    for (const link of this.linksByUrl.values()) {
+      if (!known.has(link.url)) {
+        merged.push({
+          ...createCaptureTarget(link.url),
+          folder: link.folder,
+          tags: [...link.tags],
+          depth: link.depth,
+          discoveredFrom: link.discoveredFrom ?? undefined,
+        })
+      }
+    }
+
+    return merged
+  }
+
+  folderFor(url: string): string | undefined {
+    return this.linksByUrl.get(url)?.folder
+  }
+
+  reservedFolders(): string[] {
+    return [...this.linksByUrl.values()].map((link) => link.folder)
+  }
+
+  /** Outcomes for the variants of a link that do not need to be captured again, keyed by variant name. */
+  async collectReusableVariants(
+    url: string,
+    linkDir: string,
+    variants: ReadonlyArray<CaptureVariant>,
+  ): Promise<Map<string, VariantOutcome>> {
+    const reusable = new Map<string, VariantOutcome>()
+    const link = this.linksByUrl.get(url)
+
+    for (const variant of variants) {
+      const previous = link?.variants.find((recorded) => recorded.name === variant.name)
+      const outcome = this.options.failuresOnly
+        ? this.reuseRecorded(previous)
+        : await this.reuseValidArtifacts(linkDir, variant, previous)
+
+      if (outcome) {
+        reusable.set(variant.name, outcome)
+      }
+    }
+
+    return reusable
+  }
+
+  private reuseRecorded(previous: RunManifestVariant | undefined): VariantOutcome | null {
+    if (!previous?.success) {
+      return null
+    }
+
+    return VariantOutcome.reused({
+      variant: previous.name,
+      label: previous.label,
+      engine: previous.engine ?? null,
+      httpStatus: previous.httpStatus,
+      navigationStrategy: previous.navigationStrategy,
+      timings: previous.timings,
+      artifacts: previous.artifacts.map((artifact) => ({
+        ...artifact,
+        path: joinPath(this.runFolder, artifact.path),
+      })),
+      attempts: previous.attempts ?? [],
+      warnings: previous.warnings ?? [],
+      masking: previous.masking ?? null,
+      console: previous.console ?? null,
+      routing: previous.routing ?? [],
+      accessibility: previous.accessibility ?? null,
+      performance: previous.performance ?? null,
+    })
+  }
+
+  private async reuseValidArtifacts(
+    linkDir: string,
+    variant: CaptureVariant,
+    previous: RunManifestVariant | undefined,
+  ): Promise<VariantOutcome | null> {
+    if (previous && !previous.success) {
+      return null
+    }
+
+    const screenshot = await RunResumeState.inspectArtifact(
+      "screenshot",
+      joinPath(linkDir, LinkCaptureTask.screenshotFileName(variant.name)),
+    )
+    const html = await RunResumeState.inspectArtifact(
+      "html",
+      joinPath(linkDir, LinkCaptureTask.htmlFileName(variant.name)),
+    )
+
+    if (!screenshot || !html) {
+      return null
+    }
+
+    return (
+      this.reuseRecorded(previous) ??
+      VariantOutcome.reused({
+        variant: variant.name,
+        label: variant.label,
+        engine: variant.engine,
+        httpStatus: null,
+        navigationStrategy: null,
+        timings: {},
+        artifacts: [screenshot, html],
+        attempts: [],
+        warnings: [],
+        masking: null,
+        console: null,
+        routing: [],
+        accessibility: null,
+        performance: null,
+      })
+    )
+  }
+
+  private static async inspectArtifact(
+    kind: "screenshot" | "html",
+    path: string,
+  ): Promise<VariantArtifact | null> {
+    const file = Bun.file(path)
+
+    if (!(await file.exists()) || file.size === 0) {
+      return null
+    }
+
+    if (kind === "screenshot") {
+      const header = new Uint8Array(await file.slice(0, 8).arrayBuffer())
+      const isPng = RunResumeState.PNG_SIGNATURE.every((byte, index) => header[index] === byte)
+
+      if (!isPng) {
+        return null
+      }
+    }
+
+    return { kind, path, bytes: file.size }
+  }
+}
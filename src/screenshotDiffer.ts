@@ -0,0 +1,117 @@
+import pixelmatch from "pixelmatch"
+import { PNG } from "pngjs"
+
+export interface ScreenshotDiffOptions {
+  threshold: number
+  ignoreAntiAliasing: boolean
+}
+
+export interface ScreenshotDiffResult {
+  width: number
+  height: number
+  changedPixels: number
+  totalPixels: number
+  changedPercent: number
+  baselineSize: Readonly<{ width: number; height: number }>
+  candidateSize: Readonly<{ width: number; height: number }>
+  /** Changed pixels painted red; only encoded when written with `writeImage`. */
+  image: PNG
+}
+
+export class ScreenshotDiffer {
+  private static readonly DIFF_COLOR: [number, number, number] = [255, 0, 0]
+
+  constructor(private readonly options: ScreenshotDiffOptions) {}
+
+  async diff(baselinePath: string, candidatePath: string): Promise<ScreenshotDiffResult> {
+    const baseline = await ScreenshotDiffer.readPng(baselinePath)
+    const candidate = await ScreenshotDiffer.readPng(candidatePath)
+
+    // Full-page screenshots rarely share a height, so compare the overlapping area and count
+    // every pixel outside of it as changed.
+    const width = Math.max(baseline.width, candidate.width)
+    const height = Math.max(baseline.height, candidate.height)
+    const overlapWidth = Math.min(baseline.width, candidate.width)
+    const overlapHeight = Math.min(baseline.height, candidate.height)
+
+    const overlapDiff = new PNG({ width: overlapWidth, height: overlapHeight })
+    const overlapChanged = pixelmatch(
+      ScreenshotDiffer.crop(baseline, overlapWidth, overlapHeight),
+      ScreenshotDiffer.crop(candidate, overlapWidth, overlapHeight),
+      overlapDiff.data,
+      overlapWidth,
+      overlapHeight,
+      {
+        threshold: this.options.threshold,
+        includeAA: !this.options.ignoreAntiAliasing,
+        diffColor: ScreenshotDiffer.DIFF_COLOR,
+      },
+    )
+
+    const output = new PNG({ width, height })
+    ScreenshotDiffer.fillMismatchArea(output, overlapWidth, overlapHeight)
+    PNG.bitblt(overlapDiff, output, 0, 0, overlapWidth, overlapHeight, 0, 0)
+
+    const totalPixels = width * height
+    const changedPixels = overlapChanged + (totalPixels - overlapWidth * overlapHeight)
+
+    return {
+      width,
+      height,
+      changedPixels,
+      totalPixels,
+      changedPercent: totalPixels === 0 ? 0 : (changedPixels / totalPixels) * 100,
+      baselineSize: Object.freeze({ width: baseline.width, height: baseline.height }),
+      candidateSize: Object.freeze({ width: candidate.width, height: candidate.height }),
+      image: output,
+    }
+  }
+
+  static async writeImage(result: ScreenshotDiffResult, path: string): Promise<number> {
+    return Bun.write(path, PNG.sync.write(result.image))
+  }
+
+  private static async readPng(path: string): Promise<PNG> {
+    const file = Bun.file(path)
+
+    if (!(await file.exists())) {
+      throw new Error(`Screenshot not found: ${path}`)
+    }
+
+    try {
+      return PNG.sync.read(Buffer.from(await file.arrayBuffer()))
+    } catch (error) {
+      throw new Error(
+        `Failed to decode PNG ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  private static crop(image: PNG, width: number, height: number): Uint8Array {
+    if (image.width === width && image.height === height) {
+      return image.data
+    }
+
+    const cropped = new PNG({ width, height })
+    PNG.bitblt(image, cropped, 0, 0, width, height, 0, 0)
+    return cropped.data
+  }
+
+  private static fillMismatchArea(output: PNG, overlapWidth: number, overlapHeight: number) {
+    const [red, green, blue] = ScreenshotDiffer.DIFF_COLOR
+
+    for (let y = 0; y < output.height; y++) {
+      for (let x = 0; x < output.width; x++) {
+        if (x < overlapWidth && y < overlapHeight) {
+          continue
+        }
+
+        const offset = (y * output.width + x) * 4
+        output.data[offset] = red
+        output.data[offset + 1] = green
+        output.data[offset + 2] = blue
+        output.data[offset + 3] = 255
+      }
+    }
+  }
+}
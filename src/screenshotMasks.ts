@@ -0,0 +1,139 @@
+import type { Locator, Page } from "playwright"
+import { z } from "zod"
+
+export const MASK_ACTIONS = ["hide", "collapse", "mask", "remove"] as const
+
+export type MaskAction = (typeof MASK_ACTIONS)[number]
+
+const selectorListSchema = z.array(z.string().min(1)).default([])
+
+/** Per-URL mask rules of a capture plan target. */
+export const maskRulesSchema = z
+  .object({
+    hide: selectorListSchema,
+    collapse: selectorListSchema,
+    mask: selectorListSchema,
+    remove: selectorListSchema,
+    css: z.string().optional(),
+  })
+  .strict()
+
+export interface MaskRules {
+  hide: ReadonlyArray<string>
+  collapse: ReadonlyArray<string>
+  mask: ReadonlyArray<string>
+  remove: ReadonlyArray<string>
+  /** Stylesheets injected as they are, in order, with where they came from. */
+  css: ReadonlyArray<CustomCss>
+}
+
+export interface CustomCss {
+  source: string
+  content: string
+}
+
+export interface AppliedMask {
+  action: MaskAction
+  selector: string
+  /** Elements the selector matched when the masks were applied. */
+  matched: number
+}
+
+export interface AppliedMasks {
+  masks: AppliedMask[]
+  /** Sources of the injected custom stylesheets. */
+  customCss: string[]
+  /** Locators Playwright paints over with a solid box while taking the screenshot. */
+  screenshotMask: Locator[]
+  /** Puts removed elements back and drops the injected stylesheet, once the screenshot is taken. */
+  restore: () => Promise<void>
+}
+
+type NodeLike = { replaceWith: (node: NodeLike) => void }
+type DocumentLike = {
+  querySelectorAll: (selector: string) => ArrayLike<NodeLike>
+  createComment: (data: string) => NodeLike
+}
+// Removed elements wait in the page, next to the comment that holds their place, until restored.
+type MaskScope = { document: DocumentLike; __catchapageRemovedElements?: [NodeLike, NodeLike][] }
+
+export function mergeMaskRules(...sources: ReadonlyArray<Partial<MaskRules>>): MaskRules {
+  const merge = (key: MaskAction) => [...new Set(sources.flatMap((source) => source[key] ?? []))]
+
+  return {
+    hide: merge("hide"),
+    collapse: merge("collapse"),
+    mask: merge("mask"),
+    remove: merge("remove"),
+    css: sources.flatMap((source) => source.css ?? []),
+  }
+}
+
+export function hasMaskRules(rules: MaskRules): boolean {
+  return MASK_ACTIONS.some((action) => rules[action].length > 0) || rules.css.length > 0
+}
+
+/**
+ * Hides, removes, or masks dynamic regions right before the screenshot, and undoes it afterwards
+ * so the HTML, PDF, and archive keep the page as it was. `hide` keeps the layout
+ * (`visibility: hidden`), `collapse` removes the element from the layout (`display: none`),
+ * `remove` deletes it from the DOM, and `mask` paints a solid box over it in the screenshot only.
+ */
+export class ScreenshotMasker {
+  constructor(private readonly rules: MaskRules) {}
+
+  async apply(page: Page): Promise<AppliedMasks> {
+    const masks: AppliedMask[] = []
+    const count = (selector: string) => page.locator(selector).count()
+
+    for (const action of ["hide", "collapse", "mask"] as const) {
+      for (const selector of this.rules[action]) {
+        masks.push({ action, selector, matched: await count(selector) })
+      }
+    }
+
+    for (const selector of this.rules.remove) {
+      const matched = await page.evaluate((target) => {
+        const scope = globalThis as unknown as MaskScope
+        const removed = scope.__catchapageRemovedElements ?? []
+        const elements = Array.from(scope.document.querySelectorAll(target))
+        for (const element of elements) {
+          const placeholder = scope.document.createComment("catchapage mask")
+          element.replaceWith(placeholder)
+          removed.push([placeholder, element])
+        }
+        scope.__catchapageRemovedElements = removed
+        return elements.length
+      }, selector)
+      masks.push({ action: "remove", selector, matched })
+    }
+
+    const stylesheet = [
+      ...this.rules.hide.map((selector) => `${selector} { visibility: hidden !important; }`),
+      ...this.rules.collapse.map((selector) => `${selector} { display: none !important; }`),
+      ...this.rules.css.map((css) => css.content),
+    ].join("\n")
+
+    const styleTag = stylesheet.length > 0 ? await page.addStyleTag({ content: stylesheet }) : null
+
+    return {
+      masks,
+      customCss: this.rules.css.map((css) => css.source),
+      screenshotMask: this.rules.mask.map((selector) => page.locator(selector)),
+      restore: async () => {
+        await styleTag?.evaluate((node) => (node as unknown as { remove: () => void }).remove())
+        await styleTag?.dispose()
+        // Reverse order puts an element removed from inside a removed ancestor back last.
+        await page.evaluate(() => {
+          const scope = globalThis as unknown as MaskScope
+          for (const [placeholder, element] of (
+            scope.__catchapageRemovedElements ?? []
+          ).reverse()) {
+            placeholder.replaceWith(element)
+          }
+          delete scope.__catchapageRemovedElements
+        })
+      },
+    }
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Remembers secret values resolved at runtime and masks them in console output, so that a
+ * token echoed by an error message or a login script never reaches the terminal or console.log.
+ */
+export class SecretRedactor {
+  private static instance: SecretRedactor | null = null
+  // Very short values would mask ordinary words; no real credential is this short.
+  private static readonly MIN_LENGTH = 6
+  private static readonly MASK = "***"
+  // Basic auth encodes the credentials, so the registered values never appear in the header itself.
+  private static readonly CREDENTIAL_HEADERS = new Set(["authorization", "proxy-authorization"])
+
+  private readonly secrets = new Set<string>()
+
+  private constructor() {}
+
+  static getInstance(): SecretRedactor {
+    if (SecretRedactor.instance === null) {
+      SecretRedactor.instance = new SecretRedactor()
+    }
+    return SecretRedactor.instance
+  }
+
+  register(value: string): void {
+    if (value.length >= SecretRedactor.MIN_LENGTH) {
+      this.secrets.add(value)
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.secrets.size === 0
+  }
+
+  /** Masks a recorded HTTP header; credential headers are masked whole once any secret is known. */
+  redactHeader(name: string, value: string): string {
+    if (this.secrets.size === 0) {
+      return value
+    }
+
+    return SecretRedactor.CREDENTIAL_HEADERS.has(name.toLowerCase())
+      ? SecretRedactor.MASK
+      : this.redact(value)
+  }
+
+  redactArgs(args: unknown[]): unknown[] {
+    if (this.secrets.size === 0) {
+      return args
+    }
+
+    return args.map((arg) =>
+      this.redact(typeof arg === "string" ? arg : Bun.inspect(arg, { colors: false })),
+    )
+  }
+
+  redact(text: string): string {
+    let result = text
+
+    // Longest first, so a secret containing another one is masked as a whole.
+    for (const secret of [...this.secrets].sort((a, b) => b.length - a.length)) {
+      result = result.replaceAll(secret, SecretRedactor.MASK)
+    }
+
+    return result
+  }
+}
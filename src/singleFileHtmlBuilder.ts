@@ -0,0 +1,353 @@
+import type { Page } from "playwright"
+
+type ElementLike = {
+  getAttribute: (name: string) => string | null
+  setAttribute: (name: string, value: string) => void
+  removeAttribute: (name: string) => void
+  remove: () => void
+  replaceWith: (node: ElementLike) => void
+  appendChild: (node: ElementLike) => void
+  textContent: string | null
+  outerHTML: string
+  currentSrc?: string
+  href?: string
+  src?: string
+  sheet?: { cssRules: ArrayLike<{ cssText: string }> } | null
+  cloneNode: (deep: boolean) => ElementLike
+  querySelectorAll: (selector: string) => ArrayLike<ElementLike>
+  querySelector: (selector: string) => ElementLike | null
+}
+
+type DocumentLike = {
+  baseURI: string
+  documentElement: ElementLike
+  adoptedStyleSheets?: ArrayLike<{ cssRules: ArrayLike<{ cssText: string }> }>
+  createElement: (tagName: string) => ElementLike
+  querySelectorAll: (selector: string) => ArrayLike<ElementLike>
+}
+
+// The clone is taken together with the resource list and kept in the page until it is patched,
+// so elements the page adds or removes while resources are fetched cannot shift the indexes.
+type ArchiveScope = { document: DocumentLike; __catchapageArchiveClone?: ElementLike }
+
+/** What the page references, in document order, so the clone can be patched by index. */
+interface PageResources {
+  baseUrl: string
+  stylesheetUrls: Array<string | null>
+  styleBlocks: string[]
+  adoptedStyles: string[]
+  imageUrls: Array<string | null>
+  inlineStyles: string[]
+}
+
+interface InlinedResources {
+  stylesheets: Array<string | null>
+  styleBlocks: string[]
+  adoptedStyles: string[]
+  images: Array<string | null>
+  inlineStyles: string[]
+}
+
+// Selectors are shared by the collecting and the patching step so indexes line up.
+const STYLESHEET_SELECTOR = 'link[rel~="stylesheet"]'
+const IMAGE_SELECTOR = 'img, link[rel~="icon"], video[poster], input[type="image"]'
+const INLINE_STYLE_SELECTOR = "[style]"
+const REMOVED_SELECTOR =
+  'script, link[rel~="preload"], link[rel~="modulepreload"], link[rel~="prefetch"], link[rel~="preconnect"], link[rel~="dns-prefetch"], picture > source'
+
+/**
+ * Builds a single HTML file from the rendered DOM with stylesheets, images and fonts inlined as
+ * data URIs. Scripts are dropped so the archived DOM is shown as captured instead of being
+ * re-rendered offline.
+ */
+export class SingleFileHtmlBuilder {
+  private static readonly CSS_URL_PATTERN = /url\(\s*(['"]?)([^'")]+)\1\s*\)/g
+  private static readonly CSS_IMPORT_PATTERN =
+    /@import\s+(?:url\(\s*(['"]?)([^'")]+)\1\s*\)|(['"])([^'"]+)\3)\s*([^;]*);/g
+  private static readonly MAX_IMPORT_DEPTH = 5
+
+  private readonly dataUris = new Map<string, Promise<string | null>>()
+  private failedResources = 0
+
+  constructor(
+    private readonly page: Page,
+    private readonly resourceTimeoutMs: number,
+  ) {}
+
+  async build(): Promise<{ html: string; failedResources: number }> {
+    const resources = await this.page.evaluate(
+      ({ stylesheetSelector, imageSelector, inlineStyleSelector }) => {
+        const scope = globalThis as unknown as ArchiveScope
+        const doc = scope.document
+        scope.__catchapageArchiveClone = doc.documentElement.cloneNode(true)
+        const rulesToText = (rules: ArrayLike<{ cssText: string }>) =>
+          Array.from(rules, (rule) => rule.cssText).join("\n")
+        const readSheet = (element: ElementLike) => {
+          // CSS-in-JS libraries insert rules through the CSSOM, leaving the element text empty.
+          try {
+            return element.sheet ? rulesToText(element.sheet.cssRules) : (element.textContent ?? "")
+          } catch {
+            return element.textContent ?? ""
+          }
+        }
+
+        return {
+          baseUrl: doc.baseURI,
+          stylesheetUrls: Array.from(doc.querySelectorAll(stylesheetSelector), (link) =>
+            link.href ? link.href : null,
+          ),
+          styleBlocks: Array.from(doc.querySelectorAll("style"), readSheet),
+          adoptedStyles: Array.from(doc.adoptedStyleSheets ?? [], (sheet) =>
+            rulesToText(sheet.cssRules),
+          ),
+          imageUrls: Array.from(doc.querySelectorAll(imageSelector), (element) => {
+            const url =
+              element.currentSrc ||
+              element.src ||
+              element.href ||
+              element.getAttribute("poster") ||
+              ""
+            return url.length > 0 ? url : null
+          }),
+          inlineStyles: Array.from(
+            doc.querySelectorAll(inlineStyleSelector),
+            (element) => element.getAttribute("style") ?? "",
+          ),
+        } satisfies PageResources
+      },
+      {
+        stylesheetSelector: STYLESHEET_SELECTOR,
+        imageSelector: IMAGE_SELECTOR,
+        inlineStyleSelector: INLINE_STYLE_SELECTOR,
+      },
+    )
+
+    const inlined = await this.inlineResources(resources)
+    const html = await this.page.evaluate(
+      ({ inlined, stylesheetSelector, imageSelector, inlineStyleSelector, removedSelector }) => {
+        const scope = globalThis as unknown as ArchiveScope
+        const doc = scope.document
+        const clone = scope.__catchapageArchiveClone
+        delete scope.__catchapageArchiveClone
+
+        if (!clone) {
+          throw new Error("The page navigated while its resources were being inlined")
+        }
+
+        // Existing <style> blocks are patched before stylesheet links turn into new ones.
+        Array.from(clone.querySelectorAll("style")).forEach((style, index) => {
+          style.textContent = inlined.styleBlocks[index] ?? style.textContent
+        })
+
+        Array.from(clone.querySelectorAll(stylesheetSelector)).forEach((link, index) => {
+          const css = inlined.stylesheets[index]
+          if (css === null || css === undefined) {
+            return
+          }
+          const style = doc.createElement("style")
+          const media = link.getAttribute("media")
+          if (media) {
+            style.setAttribute("media", media)
+          }
+          style.textContent = css
+          link.replaceWith(style)
+        })
+
+        Array.from(clone.querySelectorAll(imageSelector)).forEach((element, index) => {
+          const dataUri = inlined.images[index]
+          if (!dataUri) {
+            return
+          }
+          if (element.getAttribute("poster") !== null) {
+            element.setAttribute("poster", dataUri)
+          } else if (
+            element.getAttribute("href") !== null &&
+            element.getAttribute("src") === null
+          ) {
+            element.setAttribute("href", dataUri)
+          } else {
+            element.setAttribute("src", dataUri)
+          }
+          element.removeAttribute("srcset")
+          element.removeAttribute("sizes")
+          element.removeAttribute("loading")
+        })
+
+        Array.from(clone.querySelectorAll(inlineStyleSelector)).forEach((element, index) => {
+          const style = inlined.inlineStyles[index]
+          if (style !== undefined) {
+            element.setAttribute("style", style)
+          }
+        })
+
+        const head = clone.querySelector("head") ?? clone
+        for (const css of inlined.adoptedStyles) {
+          const style = doc.createElement("style")
+          style.textContent = css
+          head.appendChild(style)
+        }
+
+        for (const element of Array.from(clone.querySelectorAll(removedSelector))) {
+          element.remove()
+        }
+
+        return clone.outerHTML
+      },
+      {
+        inlined,
+        stylesheetSelector: STYLESHEET_SELECTOR,
+        imageSelector: IMAGE_SELECTOR,
+        inlineStyleSelector: INLINE_STYLE_SELECTOR,
+        removedSelector: REMOVED_SELECTOR,
+      },
+    )
+
+    return {
+      html: `<!DOCTYPE html>\n<!-- Archived from ${this.page.url()} at ${new Date().toISOString()} -->\n${html}`,
+      failedResources: this.failedResources,
+    }
+  }
+
+  private async inlineResources(resources: PageResources): Promise<InlinedResources> {
+    const baseUrl = resources.baseUrl
+
+    return {
+      stylesheets: await Promise.all(
+        resources.stylesheetUrls.map((url) => (url ? this.fetchStylesheet(url, 0) : null)),
+      ),
+      styleBlocks: await Promise.all(
+        resources.styleBlocks.map((css) => this.inlineCss(css, baseUrl, 0)),
+      ),
+      adoptedStyles: await Promise.all(
+        resources.adoptedStyles.map((css) => this.inlineCss(css, baseUrl, 0)),
+      ),
+      images: await Promise.all(
+        resources.imageUrls.map((url) => (url ? this.toDataUri(url) : null)),
+      ),
+      inlineStyles: await Promise.all(
+        resources.inlineStyles.map((css) => this.inlineCss(css, baseUrl, 0)),
+      ),
+    }
+  }
+
+  private async fetchStylesheet(url: string, depth: number): Promise<string | null> {
+    const response = await this.fetch(url)
+    return response ? this.inlineCss(response.body.toString("utf8"), url, depth) : null
+  }
+
+  // Resolves @import rules and url() references relative to the stylesheet they appear in.
+  private async inlineCss(css: string, baseUrl: string, depth: number): Promise<string> {
+    let result = css
+
+    if (depth < SingleFileHtmlBuilder.MAX_IMPORT_DEPTH) {
+      result = await SingleFileHtmlBuilder.replaceAsync(
+        result,
+        SingleFileHtmlBuilder.CSS_IMPORT_PATTERN,
+        async (match, _quote, urlValue, _quote2, stringValue, media) => {
+          const target = SingleFileHtmlBuilder.resolve(urlValue ?? stringValue ?? "", baseUrl)
+          const imported = target ? await this.fetchStylesheet(target, depth + 1) : null
+
+          if (imported === null) {
+            return match
+          }
+
+          const mediaQuery = (media ?? "").trim()
+          return mediaQuery ? `@media ${mediaQuery} {\n${imported}\n}` : imported
+        },
+      )
+    }
+
+    return SingleFileHtmlBuilder.replaceAsync(
+      result,
+      SingleFileHtmlBuilder.CSS_URL_PATTERN,
+      async (match, _quote, value) => {
+        const target = SingleFileHtmlBuilder.resolve(value ?? "", baseUrl)
+        const dataUri = target ? await this.toDataUri(target) : null
+        return dataUri ? `url("${dataUri}")` : match
+      },
+    )
+  }
+
+  private toDataUri(url: string): Promise<string | null> {
+    if (url.startsWith("data:")) {
+      return Promise.resolve(url)
+    }
+
+    let pending = this.dataUris.get(url)
+
+    if (!pending) {
+      pending = this.fetch(url).then((response) =>
+        response ? `data:${response.contentType};base64,${response.body.toString("base64")}` : null,
+      )
+      this.dataUris.set(url, pending)
+    }
+
+    return pending
+  }
+
+  private async fetch(url: string): Promise<{ body: Buffer; contentType: string } | null> {
+    try {
+      // The page's request context shares cookies and headers with the captured page.
+      const response = await this.page.request.get(url, { timeout: this.resourceTimeoutMs })
+
+      if (!response.ok()) {
+        throw new Error(`HTTP ${response.status()}`)
+      }
+
+      const contentType = (response.headers()["content-type"] ?? "application/octet-stream")
+        .split(";")[0]
+        ?.trim()
+      return { body: await response.body(), contentType: contentType || "application/octet-stream" }
+    } catch (error) {
+      this.failedResources++
+      console.warn(
+        `[Archive] Could not inline ${url}: ${error instanceof Error ? error.message : String(error)}.`,
+      )
+      return null
+    }
+  }
+
+  private static resolve(value: string, baseUrl: string): string | null {
+    const trimmed = value.trim()
+
+    if (trimmed.length === 0 || trimmed.startsWith("#")) {
+      return null
+    }
+
+    try {
+      const resolved = new URL(trimmed, baseUrl)
+      return resolved.protocol === "data:" ||
+        resolved.protocol === "http:" ||
+        resolved.protocol === "https:"
+        ? resolved.toString()
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  private static async replaceAsync(
+    input: string,
+    pattern: RegExp,
+    replacer: (match: string, ...groups: Array<string | undefined>) => Promise<string>,
+  ): Promise<string> {
+    const matches = [...input.matchAll(pattern)]
+
+    if (matches.length === 0) {
+      return input
+    }
+
+    const replacements = await Promise.all(
+      matches.map((match) => replacer(match[0], ...match.slice(1))),
+    )
+    let output = ""
+    let lastIndex = 0
+
+    matches.forEach((match, index) => {
+      output += input.slice(lastIndex, match.index) + replacements[index]
+      lastIndex = (match.index ?? 0) + match[0].length
+    })
+
+    return output + input.slice(lastIndex)
+  }
+}
@@ -0,0 +1,201 @@
+import { joinPath } from "./joinPath"
+import { normalizeUrl } from "./loadUrlsFromFile"
+import { UrlPatternMatcher } from "./urlPatternMatcher"
+
+export interface SitemapUrlSourceOptions {
+  includePatterns: ReadonlyArray<string>
+  excludePatterns: ReadonlyArray<string>
+  lastModifiedSince: Date | null
+}
+
+interface SitemapEntry {
+  loc: string
+  lastmod: string | null
+}
+
+export class SitemapUrlSource {
+  private static readonly GZIP_MAGIC = [0x1f, 0x8b]
+  private static readonly XML_ENTITIES: Readonly<Record<string, string>> = {
+    "&amp;": "&",
+    "&lt;": "<",
+    "&gt;": ">",
+    "&quot;": '"',
+    "&apos;": "'",
+  }
+
+  private readonly matcher: UrlPatternMatcher
+  private readonly visitedFiles = new Set<string>()
+
+  constructor(
+    private readonly filePath: string,
+    private readonly options: SitemapUrlSourceOptions,
+  ) {
+    this.matcher = new UrlPatternMatcher(options.includePatterns, options.excludePatterns)
+  }
+
+  async load(): Promise<string[]> {
+    const rawUrls = await this.readSitemap(this.filePath)
+    const invalid: string[] = []
+    const normalizedUrls = new Set<string>()
+
+    for (const rawUrl of rawUrls) {
+      try {
+        normalizedUrls.add(normalizeUrl(rawUrl))
+      } catch {
+        invalid.push(rawUrl)
+      }
+    }
+
+    if (invalid.length > 0) {
+      throw new Error(`Sitemap contains invalid URLs: ${invalid.join(", ")}`)
+    }
+
+    if (normalizedUrls.size === 0) {
+      throw new Error(`Sitemap did not yield any URLs after filtering: ${this.filePath}`)
+    }
+
+    console.log(
+      `[Sitemap] Loaded ${normalizedUrls.size} unique URL(s) from ${this.filePath} and its nested sitemaps.`,
+    )
+    return [...normalizedUrls]
+  }
+
+  private async readSitemap(path: string): Promise<string[]> {
+    if (this.visitedFiles.has(path)) {
+      console.warn(`[Sitemap] Skipping ${path}: already processed (circular sitemap reference).`)
+      return []
+    }
+
+    this.visitedFiles.add(path)
+    const xml = await SitemapUrlSource.readXml(path)
+
+    if (/<(?:[\w-]+:)?sitemapindex[\s>]/.test(xml)) {
+      const children = SitemapUrlSource.parseEntries(xml, "sitemap")
+      console.log(`[Sitemap] ${path}: sitemap index referencing ${children.length} sitemap(s).`)
+      const urls: string[] = []
+
+      for (const child of children) {
+        urls.push(...(await this.readSitemap(this.resolveNestedPath(path, child.loc))))
+      }
+
+      return urls
+    }
+
+    if (!/<(?:[\w-]+:)?urlset[\s>]/.test(xml)) {
+      throw new Error(`File is neither a sitemap nor a sitemap index: ${path}`)
+    }
+
+    const entries = SitemapUrlSource.parseEntries(xml, "url")
+    const accepted = entries.filter((entry) => this.accepts(entry))
+    console.log(
+      `[Sitemap] ${path}: ${accepted.length} URL(s) accepted out of ${entries.length} listed.`,
+    )
+    return accepted.map((entry) => entry.loc)
+  }
+
+  private accepts(entry: SitemapEntry): boolean {
+    if (!this.matcher.matches(entry.loc)) {
+      return false
+    }
+
+    const since = this.options.lastModifiedSince
+
+    // Entries without a lastmod cannot be proven stale, so they are kept.
+    if (since === null || entry.lastmod === null) {
+      return true
+    }
+
+    const lastModified = new Date(entry.lastmod)
+    return Number.isNaN(lastModified.getTime()) || lastModified >= since
+  }
+
+  // Nested sitemap locations are absolute URLs on the live site; locally they are expected
+  // next to the parent sitemap under the same file name.
+  private resolveNestedPath(parentPath: string, loc: string): string {
+    const parentDir = SitemapUrlSource.directoryOf(parentPath)
+
+    if (/^https?:\/\//i.test(loc)) {
+      const fileName = new URL(loc).pathname.split("/").filter(Boolean).pop()
+
+      if (!fileName) {
+        throw new Error(`Cannot derive a local file name for nested sitemap ${loc}`)
+      }
+
+      return joinPath(parentDir, fileName)
+    }
+
+    if (/^file:\/\//i.test(loc)) {
+      return decodeURIComponent(new URL(loc).pathname)
+    }
+
+    return loc.startsWith("/") ? loc : joinPath(parentDir, loc)
+  }
+
+  private static async readXml(path: string): Promise<string> {
+    const file = Bun.file(path)
+
+    if (!(await file.exists())) {
+      throw new Error(`Sitemap file not found: ${path}`)
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const isGzip =
+      bytes[0] === SitemapUrlSource.GZIP_MAGIC[0] && bytes[1] === SitemapUrlSource.GZIP_MAGIC[1]
+
+    try {
+      return new TextDecoder().decode(isGzip ? Bun.gunzipSync(bytes) : bytes)
+    } catch (error) {
+      throw new Error(
+        `Failed to read sitemap ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      )
+    }
+  }
+
+  private static parseEntries(xml: string, tagName: "url" | "sitemap"): SitemapEntry[] {
+    const entryPattern = new RegExp(
+      `<([\\w-]+:)?${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</\\1${tagName}>`,
+      "g",
+    )
+    const entries: SitemapEntry[] = []
+
+    for (const match of xml.matchAll(entryPattern)) {
+      const prefix = match[1] ?? ""
+      const body = match[2] ?? ""
+      const loc = SitemapUrlSource.readChild(body, prefix, "loc")
+
+      if (loc) {
+        entries.push({ loc, lastmod: SitemapUrlSource.readChild(body, prefix, "lastmod") })
+      }
+    }
+
+    return entries
+  }
+
+  // Children must share the entry's namespace prefix, so extension elements such as
+  // <image:loc> or <video:loc> are never mistaken for the page's own <loc>.
+  private static readChild(body: string, prefix: string, tagName: string): string | null {
+    const match = new RegExp(`<${prefix}${tagName}>([\\s\\S]*?)</${prefix}${tagName}>`).exec(body)
+    const raw = match?.[1]?.trim()
+
+    if (!raw) {
+      return null
+    }
+
+    const unwrapped = raw.replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1").trim()
+    return unwrapped.replace(
+      /&(amp|lt|gt|quot|apos);/g,
+      (entity) => SitemapUrlSource.XML_ENTITIES[entity] ?? entity,
+    )
+  }
+
+  private static directoryOf(path: string): string {
+    const normalized = path.replace(/\\/g, "/")
+    const separatorIndex = normalized.lastIndexOf("/")
+
+    if (separatorIndex < 0) {
+      return "."
+    }
+
+    return separatorIndex === 0 ? "/" : normalized.slice(0, separatorIndex)
+  }
+}
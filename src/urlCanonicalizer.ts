@@ -0,0 +1,52 @@
+export class UrlCanonicalizer {
+  private readonly exactParams: ReadonlySet<string>
+  private readonly paramPrefixes: ReadonlyArray<string>
+
+  constructor(trackingParams: ReadonlyArray<string>) {
+    const normalized = trackingParams.map((param) => param.trim().toLowerCase()).filter(Boolean)
+    this.exactParams = new Set(normalized.filter((param) => !param.endsWith("*")))
+    this.paramPrefixes = normalized
+      .filter((param) => param.endsWith("*"))
+      .map((param) => param.slice(0, -1))
+  }
+
+  /**
+   * Returns a comparable form of the URL: fragment and tracking parameters removed and the
+   * trailing slash of non-root paths dropped. Returns null for non-HTTP(S) or unparsable URLs.
+   */
+  canonicalize(rawUrl: string): string | null {
+    let parsed: URL
+
+    try {
+      parsed = new URL(rawUrl)
+    } catch {
+      return null
+    }
+
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      return null
+    }
+
+    parsed.hash = ""
+
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (this.isTrackingParam(key)) {
+        parsed.searchParams.delete(key)
+      }
+    }
+
+    if (parsed.pathname.length > 1 && parsed.pathname.endsWith("/")) {
+      parsed.pathname = parsed.pathname.replace(/\/+$/, "")
+    }
+
+    return parsed.toString()
+  }
+
+  private isTrackingParam(key: string): boolean {
+    const lowerCased = key.toLowerCase()
+    return (
+      this.exactParams.has(lowerCased) ||
+      this.paramPrefixes.some((prefix) => lowerCased.startsWith(prefix))
+    )
+  }
+}
@@ -0,0 +1,41 @@
+type UrlPredicate = (url: string) => boolean
+
+export class UrlPatternMatcher {
+  private readonly includes: ReadonlyArray<UrlPredicate>
+  private readonly excludes: ReadonlyArray<UrlPredicate>
+
+  constructor(include: ReadonlyArray<string>, exclude: ReadonlyArray<string>) {
+    this.includes = include.map((pattern) => UrlPatternMatcher.compile(pattern))
+    this.excludes = exclude.map((pattern) => UrlPatternMatcher.compile(pattern))
+  }
+
+  matches(url: string): boolean {
+    if (this.includes.length > 0 && !this.includes.some((predicate) => predicate(url))) {
+      return false
+    }
+
+    return !this.excludes.some((predicate) => predicate(url))
+  }
+
+  // Patterns wrapped in slashes (optionally followed by flags) are regular expressions;
+  // everything else is a glob matched against the full URL.
+  private static compile(pattern: string): UrlPredicate {
+    const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+
+    if (regexMatch) {
+      try {
+        // Stateful flags would make repeated test() calls skip matches.
+        const flags = (regexMatch[2] ?? "").replace(/[gy]/g, "")
+        const regex = new RegExp(regexMatch[1] ?? "", flags)
+        return (url) => regex.test(url)
+      } catch (error) {
+        throw new Error(
+          `Invalid URL pattern "${pattern}": ${error instanceof Error ? error.message : String(error)}`,
+        )
+      }
+    }
+
+    const glob = new Bun.Glob(pattern)
+    return (url) => glob.match(url)
+  }
+}
@@ -1,6 +1,42 @@
-import type { Browser, BrowserContextOptions, Page, Response } from "playwright"
+import type { Browser, BrowserContextOptions, Locator, Page, Response } from "playwright"
+import {
+  AccessibilityAuditor,
+  type AccessibilitySummary,
+  exceedsImpact,
+} from "./accessibilityAuditor"
+import type { AuthSession } from "./authSession"
+import type { BrowserEngine } from "./browserEngine"
 import { config } from "./config"
+import { classifyFailure } from "./failureCategory"
+import { InteractionRunner } from "./interactionRunner"
+import type { InteractionStep } from "./interactionStep"
 import { joinPath } from "./joinPath"
+import { PageArchiver } from "./pageArchiver"
+import { PageAutoScroller } from "./pageAutoScroller"
+import { PageConsoleRecorder, type PageConsoleSummary } from "./pageConsoleRecorder"
+import { type ThrottlingSettings, PageThrottler } from "./pageThrottler"
+import { PageMetadataExtractor } from "./pageMetadataExtractor"
+import { PdfRenderer } from "./pdfRenderer"
+import {
+  describePerformance,
+  type PerformanceMetrics,
+  PerformanceRecorder,
+} from "./performanceRecorder"
+import { RequestRouter } from "./requestRouter"
+import type { RetryPolicy } from "./retryPolicy"
+import type { RouteRule } from "./routeRule"
+import { hasMaskRules, type MaskRules, mergeMaskRules, ScreenshotMasker } from "./screenshotMasks"
+import { SecretRedactor } from "./secretRedactor"
+import {
+  type VariantArtifact,
+  type VariantAttempt,
+  type VariantFailure,
+  type VariantMasking,
+  VariantOutcome,
+  type VariantOutcomeInit,
+  type VariantWarning,
+} from "./variantOutcome"
+import { WarcRecorder } from "./warcRecorder"
 
 // cspell:ignore networkidle domcontentloaded
 
@@ -11,6 +47,13 @@ type NavigationStrategy = {
   timeout: number
 }
 
+// Only the parts of a HAR entry that can carry credentials.
+type HarNameValue = { name: string; value: string }
+
+type HarMessage = { headers?: HarNameValue[]; cookies?: HarNameValue[] }
+
+type HarLog = { log?: { entries?: Array<{ request?: HarMessage; response?: HarMessage }> } }
+
 type DomRectLike = {
   width: number
   height: number
@@ -22,72 +65,200 @@ type DomElementLike = {
   getBoundingClientRect?: () => DomRectLike
 }
 
+type AnchorLike = {
+  href?: unknown
+}
+
 type DocumentLike = {
   body?: DomElementLike | null
+  querySelectorAll?: (selector: string) => ArrayLike<AnchorLike>
 }
 
 export interface VariantCaptureConfig {
   browser: Browser
+  engine: BrowserEngine
   url: string
   linkDir: string
   htmlFileName: string
   screenshotFileName: string
+  archiveFileName?: string
+  warcFileName?: string
+  pdfFileName?: string
+  consoleFileName?: string
+  a11ySnapshotFileName?: string
+  a11yAuditFileName?: string
+  performanceFileName?: string
+  metadataFileName?: string
+  variantName: string
   variantLabel: string
   contextOptions: BrowserContextOptions
+  throttling: ThrottlingSettings
+  primaryNavigationTimeoutMs: number
+  fallbackNavigationTimeoutMs: number
+  waitForSelector?: string
+  interactionSteps: ReadonlyArray<InteractionStep>
+  masks: MaskRules
+  /** Credentials are added when the context is created, so they never show up in contextOptions. */
+  authSession: AuthSession | null
+  routeRules: ReadonlyArray<RouteRule>
+  retryPolicy: RetryPolicy
+  /** Receives the page's links and the URL it ended up on after redirects. */
+  onLinksDiscovered?: (urls: string[], finalUrl: string) => void
 }
 
 export class VariantCaptureTask {
-  private static readonly NAVIGATION_STRATEGIES: ReadonlyArray<NavigationStrategy> = [
-    { waitUntil: "networkidle", timeout: config.PRIMARY_NAVIGATION_TIMEOUT_MS },
-    { waitUntil: "domcontentloaded", timeout: config.FALLBACK_NAVIGATION_TIMEOUT_MS },
-  ]
+  private timings: Record<string, number> = {}
+  private artifacts: VariantArtifact[] = []
+  private warnings: VariantWarning[] = []
+  private masking: VariantMasking | null = null
+  private screenshotMask: Locator[] = []
+  private restoreMasks: (() => Promise<void>) | null = null
+  private consoleRecorder: PageConsoleRecorder | null = null
+  private consoleSummary: PageConsoleSummary | null = null
+  private requestRouter: RequestRouter | null = null
+  private accessibility: AccessibilitySummary | null = null
+  private performanceRecorder: PerformanceRecorder | null = null
+  private performance: PerformanceMetrics | null = null
+  private readonly attempts: VariantAttempt[] = []
+  private httpStatus: number | null = null
+  private navigationStrategy: string | null = null
+  private currentPhase = "context"
+  private attemptStartedAt = new Date()
+
+  private readonly navigationStrategies: ReadonlyArray<NavigationStrategy>
+
+  constructor(private readonly config: VariantCaptureConfig) {
+    this.navigationStrategies = [
+      { waitUntil: "networkidle", timeout: this.config.primaryNavigationTimeoutMs },
+      { waitUntil: "domcontentloaded", timeout: this.config.fallbackNavigationTimeoutMs },
+    ]
+  }
+
+  async run(): Promise<VariantOutcome> {
+    const policy = this.config.retryPolicy
+    let attempt = 1
+    let failure = await this.runAttempt(attempt)
 
-  constructor(private readonly config: VariantCaptureConfig) {}
+    while (failure !== null && policy.shouldRetry(failure.category, attempt)) {
+      const delay = policy.delayAfter(attempt)
+      this.logWarn(
+        `Retrying after ${failure.category} failure in ${delay}ms (attempt ${attempt + 1}/${policy.maxAttempts}).`,
+      )
+      await Bun.sleep(delay)
+      attempt++
+      failure = await this.runAttempt(attempt)
+    }
 
-  async run(): Promise<void> {
+    if (failure === null) {
+      return VariantOutcome.ok(this.buildOutcomeInit())
+    }
+
+    if (attempt < policy.maxAttempts) {
+      this.logWarn(`Not retrying ${failure.category} failure.`)
+    }
+
+    return VariantOutcome.fail(this.buildOutcomeInit(), failure)
+  }
+
+  // Each attempt starts from a clean slate; only the attempt log survives between attempts.
+  private async runAttempt(attempt: number): Promise<VariantFailure | null> {
     const taskStart = Date.now()
-    this.logInfo(`Starting capture for ${this.config.url} (output: ${this.config.linkDir}).`)
+    this.timings = {}
+    this.artifacts = []
+    this.warnings = []
+    this.masking = null
+    this.screenshotMask = []
+    this.restoreMasks = null
+    this.consoleRecorder = null
+    this.consoleSummary = null
+    this.requestRouter = null
+    this.accessibility = null
+    this.performanceRecorder = null
+    this.performance = null
+    this.attemptStartedAt = new Date(taskStart)
+    this.httpStatus = null
+    this.navigationStrategy = null
+    this.currentPhase = "context"
+    this.logInfo(
+      `Starting capture attempt ${attempt}/${this.config.retryPolicy.maxAttempts} for ${this.config.url} (output: ${this.config.linkDir}).`,
+    )
+    let failure: VariantFailure | null = null
 
-    const html = await this.withContext(async (page) => {
-      await this.navigateWithFallback(page)
-      if (config.POST_NAVIGATION_IDLE_MS > 0) {
-        this.logInfo(
-          `Waiting ${config.POST_NAVIGATION_IDLE_MS}ms after navigation to allow the page to settle...`,
+    try {
+      await this.withContext(async (page) => {
+        this.consoleRecorder = this.startConsoleRecorder(page)
+        const warcRecorder = this.startWarcRecorder(page)
+        await this.measurePhase("throttling", () => this.applyThrottling(page))
+        this.performanceRecorder = this.startPerformanceRecorder(page)
+        await this.measurePhase("navigation", () => this.navigateWithFallback(page))
+        await this.measurePhase("postNavigationIdle", () => this.waitForPostNavigationIdle(page))
+        await this.measurePhase("stabilization", () => this.waitForStabilization(page))
+        await this.measurePhase("contentReady", () => this.waitForMeaningfulContent(page))
+        await this.measurePhase("performance", () => this.writePerformanceMetrics())
+        await this.measurePhase("interactions", () => this.runInteractions(page))
+        await this.measurePhase("waitForSelector", () => this.waitForTargetSelector(page))
+        await this.measurePhase("autoScroll", () => this.autoScroll(page))
+        await this.measurePhase("accessibility", () => this.auditAccessibility(page))
+        await this.measurePhase("metadata", () => this.writeMetadata(page))
+        await this.measurePhase("masks", () => this.applyMasks(page))
+        await this.measurePhase("screenshot", () => this.captureScreenshot(page))
+        await this.measurePhase("unmask", () => this.removeMasks())
+        await this.measurePhase("html", () => this.writeHtmlSnapshot(page))
+        await this.measurePhase("pdf", () => this.writePdf(page))
+        await this.measurePhase("archive", () => this.writeArchive(page))
+        await this.measurePhase("warc", () => this.writeWarc(warcRecorder))
+        await this.measurePhase("linkDiscovery", () => this.discoverLinks(page))
+        await this.measurePhase("pageErrors", async () => this.checkPageErrors())
+        await this.measurePhase("accessibilityViolations", async () =>
+          this.checkAccessibilityViolations(),
         )
-        const idleWaitStart = Date.now()
-        await page.waitForTimeout(config.POST_NAVIGATION_IDLE_MS)
-        this.logInfo(`Post-navigation idle wait complete (${this.formatDuration(idleWaitStart)}).`)
-      } else {
-        this.logInfo("Skipping post-navigation idle wait (disabled).")
-      }
-      await this.waitForStabilization(page)
-      await this.waitForMeaningfulContent(page)
-      this.logInfo("Capturing screenshot...")
-      const screenshotStart = Date.now()
-      await page.screenshot({
-        path: joinPath(this.config.linkDir, this.config.screenshotFileName),
-        fullPage: true,
       })
-      this.logInfo(
-        `Screenshot saved to ${joinPath(this.config.linkDir, this.config.screenshotFileName)} ` +
-          `(${this.formatDuration(screenshotStart)}).`,
+      this.timings.total = Date.now() - taskStart
+      this.logInfo(`Capture finished in ${this.formatDuration(taskStart)}.`)
+    } catch (error) {
+      this.timings.total = Date.now() - taskStart
+      failure = {
+        phase: this.currentPhase,
+        category: classifyFailure(this.currentPhase, error, this.httpStatus),
+        message: error instanceof Error ? error.message : String(error),
+      }
+      this.logWarn(
+        `Capture failed during ${failure.phase} phase (${failure.category}) after ${this.formatDuration(taskStart)}: ${failure.message}.`,
       )
-      return page.content()
-    })
+    }
 
-    this.logInfo("Writing HTML snapshot to disk...")
-    const writeStart = Date.now()
-    await Bun.write(joinPath(this.config.linkDir, this.config.htmlFileName), html)
-    this.logInfo(
-      `Stored HTML snapshot (${html.length} characters) in ${this.formatDuration(writeStart)}.`,
-    )
-    this.logInfo(`Capture finished in ${this.formatDuration(taskStart)}.`)
+    // Written for failed attempts too; page errors are often the reason a capture broke.
+    await this.writeConsoleLog()
+
+    this.attempts.push({
+      attempt,
+      startedAt: new Date(taskStart).toISOString(),
+      durationMs: this.timings.total,
+      httpStatus: this.httpStatus,
+      navigationStrategy: this.navigationStrategy,
+      failure,
+    })
+    return failure
   }
 
   private async withContext<T>(handler: (page: Page) => Promise<T>): Promise<T> {
     this.logInfo("Creating browser context for variant...")
     const contextStart = Date.now()
-    const context = await this.config.browser.newContext(this.config.contextOptions)
+    const authSession = this.config.authSession
+    const context = await this.measurePhase("context", async () => {
+      const created = await this.config.browser.newContext({
+        ...this.config.contextOptions,
+        ...authSession?.contextOptionsFor(this.config.url),
+      })
+      await authSession?.prepareContext(created)
+
+      if (this.config.routeRules.length > 0) {
+        this.requestRouter = new RequestRouter(this.config.routeRules)
+        await this.requestRouter.attach(created)
+      }
+
+      return created
+    })
     this.logInfo(`Context ready (${this.formatDuration(contextStart)}).`)
 
     try {
@@ -115,13 +286,68 @@ export class VariantCaptureTask {
       const closeStart = Date.now()
       await context.close()
       this.logInfo(`Context closed (${this.formatDuration(closeStart)}).`)
+      await this.recordHarArtifact()
+    }
+  }
+
+  // The HAR is only complete once the context has closed, whether or not the capture succeeded.
+  private async recordHarArtifact() {
+    const harPath = this.config.contextOptions.recordHar?.path
+
+    if (!harPath) {
+      return
+    }
+
+    const harFile = Bun.file(harPath)
+
+    if (!(await harFile.exists())) {
+      return
+    }
+
+    let bytes = harFile.size
+
+    try {
+      bytes = await this.redactHar(harPath)
+    } catch (error) {
+      const message = `Could not mask credentials in ${harPath}: ${error instanceof Error ? error.message : String(error)}`
+      this.warnings.push({ phase: "har", message })
+      this.logWarn(`${message}.`)
+    }
+
+    this.recordArtifact("har", harPath, bytes)
+    this.logInfo(`HAR saved to ${harPath}.`)
+  }
+
+  // Playwright records the injected auth headers and cookies as sent; mask them like the WARC does.
+  private async redactHar(harPath: string): Promise<number> {
+    const redactor = SecretRedactor.getInstance()
+    const harFile = Bun.file(harPath)
+
+    if (redactor.isEmpty) {
+      return harFile.size
+    }
+
+    const har = (await harFile.json()) as HarLog
+
+    for (const entry of har.log?.entries ?? []) {
+      for (const message of [entry.request, entry.response]) {
+        for (const header of message?.headers ?? []) {
+          header.value = redactor.redactHeader(header.name, header.value)
+        }
+
+        for (const cookie of message?.cookies ?? []) {
+          cookie.value = redactor.redact(cookie.value)
+        }
+      }
     }
+
+    return Bun.write(harPath, JSON.stringify(har))
   }
 
   private async navigateWithFallback(page: Page) {
     let lastError: unknown
 
-    for (const [index, strategy] of VariantCaptureTask.NAVIGATION_STRATEGIES.entries()) {
+    for (const [index, strategy] of this.navigationStrategies.entries()) {
       const attemptStart = Date.now()
 
       try {
@@ -130,6 +356,7 @@ export class VariantCaptureTask {
         )
         const response = await page.goto(this.config.url, strategy)
         this.validateNavigationResponse(response, this.formatDuration(attemptStart))
+        this.navigationStrategy = strategy.waitUntil ?? null
 
         if (index > 0) {
           this.logWarn(
@@ -146,9 +373,9 @@ export class VariantCaptureTask {
         const reason = error instanceof Error ? error.message : String(error)
         this.logWarn(`Navigation attempt ${index + 1} failed in ${attemptDuration}: ${reason}.`)
 
-        if (index < VariantCaptureTask.NAVIGATION_STRATEGIES.length - 1) {
+        if (index < this.navigationStrategies.length - 1) {
           this.logWarn(
-            `Retrying with fallback strategy (next waitUntil=${VariantCaptureTask.NAVIGATION_STRATEGIES[index + 1]?.waitUntil ?? "n/a"}).`,
+            `Retrying with fallback strategy (next waitUntil=${this.navigationStrategies[index + 1]?.waitUntil ?? "n/a"}).`,
           )
         }
       }
@@ -161,6 +388,20 @@ export class VariantCaptureTask {
     throw new Error(`Navigation failed for ${this.config.url}.`)
   }
 
+  private async waitForPostNavigationIdle(page: Page) {
+    if (config.POST_NAVIGATION_IDLE_MS <= 0) {
+      this.logInfo("Skipping post-navigation idle wait (disabled).")
+      return
+    }
+
+    this.logInfo(
+      `Waiting ${config.POST_NAVIGATION_IDLE_MS}ms after navigation to allow the page to settle...`,
+    )
+    const idleWaitStart = Date.now()
+    await page.waitForTimeout(config.POST_NAVIGATION_IDLE_MS)
+    this.logInfo(`Post-navigation idle wait complete (${this.formatDuration(idleWaitStart)}).`)
+  }
+
   private async waitForStabilization(page: Page) {
     if (config.CAPTURE_STABILIZATION_DELAY_MS <= 0) {
       this.logInfo("Skipping stabilization wait (disabled).")
@@ -231,6 +472,522 @@ export class VariantCaptureTask {
     }
   }
 
+  private async runInteractions(page: Page) {
+    const steps = this.config.interactionSteps
+
+    if (steps.length === 0) {
+      return
+    }
+
+    this.logInfo(`Running ${steps.length} interaction step(s)...`)
+    const interactionStart = Date.now()
+    const runner = new InteractionRunner({
+      defaultTimeoutMs: config.INTERACTION_STEP_TIMEOUT_MS,
+      logInfo: (message) => this.logInfo(message),
+      logWarn: (message) => this.logWarn(message),
+    })
+    await runner.run(page, steps)
+    this.logInfo(`Interaction steps complete (${this.formatDuration(interactionStart)}).`)
+  }
+
+  private async autoScroll(page: Page) {
+    if (!config.AUTO_SCROLL_ENABLED) {
+      return
+    }
+
+    this.logInfo(
+      `Auto-scrolling to load lazy content (max ${config.AUTO_SCROLL_MAX_HEIGHT_PX}px, ${config.AUTO_SCROLL_TIMEOUT_MS}ms)...`,
+    )
+    const scrollStart = Date.now()
+    const scroller = new PageAutoScroller({
+      maxHeightPx: config.AUTO_SCROLL_MAX_HEIGHT_PX,
+      timeoutMs: config.AUTO_SCROLL_TIMEOUT_MS,
+      stepDelayMs: config.AUTO_SCROLL_STEP_DELAY_MS,
+      imageTimeoutMs: config.AUTO_SCROLL_IMAGE_TIMEOUT_MS,
+    })
+    const result = await scroller.scroll(page)
+    const summary = `${result.steps} step(s), page height ${result.documentHeight}px, ${this.formatDuration(scrollStart)}`
+
+    if (result.reason === "stable") {
+      this.logInfo(`Auto-scroll reached the end of the page (${summary}).`)
+    } else {
+      this.logWarn(
+        `Auto-scroll stopped at the ${result.reason === "timeout" ? "time" : "height"} limit before the page stopped growing (${summary}).`,
+      )
+    }
+
+    if (result.pendingImages > 0) {
+      this.logWarn(
+        `${result.pendingImages} image(s) were still loading after ${config.AUTO_SCROLL_IMAGE_TIMEOUT_MS}ms.`,
+      )
+    }
+  }
+
+  // Runs before masks are applied, so removed or hidden regions are still audited.
+  private async auditAccessibility(page: Page) {
+    const snapshotFileName = this.config.a11ySnapshotFileName
+    const auditFileName = this.config.a11yAuditFileName
+
+    if (!snapshotFileName || !auditFileName) {
+      return
+    }
+
+    const auditor = new AccessibilityAuditor({ ruleTags: config.A11Y_RULE_TAGS })
+    const auditStart = Date.now()
+
+    try {
+      const snapshotPath = joinPath(this.config.linkDir, snapshotFileName)
+      const snapshotBytes = await Bun.write(snapshotPath, `${await auditor.snapshot(page)}\n`)
+      this.recordArtifact("a11y-snapshot", snapshotPath, snapshotBytes)
+
+      const audit = await auditor.audit(page)
+      const auditPath = joinPath(this.config.linkDir, auditFileName)
+      const auditBytes = await Bun.write(
+        auditPath,
+        `${JSON.stringify({ url: this.config.url, variant: this.config.variantName, ...audit }, null, 2)}\n`,
+      )
+      this.recordArtifact("a11y-audit", auditPath, auditBytes)
+      this.accessibility = audit.summary
+      this.logInfo(
+        `Accessibility audit found ${audit.summary.violations} violated rule(s) on ${audit.summary.nodes} element(s), ${audit.summary.critical} critical (${this.formatDuration(auditStart)}).`,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "accessibility", message })
+      this.logWarn(
+        `Accessibility audit failed after ${this.formatDuration(auditStart)}: ${message}.`,
+      )
+    }
+  }
+
+  // Runs before masks are applied, so removed headings and tags are still part of the outline.
+  private async writeMetadata(page: Page) {
+    const fileName = this.config.metadataFileName
+
+    if (!fileName) {
+      return
+    }
+
+    const metadataPath = joinPath(this.config.linkDir, fileName)
+
+    try {
+      const metadata = await new PageMetadataExtractor().extract(page)
+      const bytes = await Bun.write(
+        metadataPath,
+        `${JSON.stringify({ url: this.config.url, variant: this.config.variantName, ...metadata }, null, 2)}\n`,
+      )
+      this.recordArtifact("metadata", metadataPath, bytes)
+      this.logInfo(
+        `Metadata: title ${JSON.stringify(metadata.title)}, ${metadata.headings.length} heading(s), ${metadata.jsonLd.length} JSON-LD block(s).`,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "metadata", message })
+      this.logWarn(`Could not extract page metadata: ${message}.`)
+    }
+  }
+
+  private checkAccessibilityViolations() {
+    const threshold = config.A11Y_FAIL_ON_IMPACT
+
+    if (
+      !this.accessibility ||
+      threshold === "none" ||
+      !exceedsImpact(this.accessibility, threshold)
+    ) {
+      return
+    }
+
+    throw new Error(
+      `Accessibility violations of ${threshold} impact or worse were found; see ${this.config.a11yAuditFileName}.`,
+    )
+  }
+
+  private async applyMasks(page: Page) {
+    const customCss = config.CUSTOM_CSS_FILE
+    const rules =
+      customCss.length > 0
+        ? mergeMaskRules(
+            { css: [{ source: customCss, content: await Bun.file(customCss).text() }] },
+            this.config.masks,
+          )
+        : this.config.masks
+
+    if (!hasMaskRules(rules)) {
+      return
+    }
+
+    const applied = await new ScreenshotMasker(rules).apply(page)
+    this.masking = { masks: applied.masks, customCss: applied.customCss }
+    this.screenshotMask = applied.screenshotMask
+    this.restoreMasks = applied.restore
+    const unmatched = applied.masks.filter((mask) => mask.matched === 0)
+    this.logInfo(
+      `Applied ${applied.masks.length} mask selector(s)${
+        applied.customCss.length > 0 ? ` and custom CSS from ${applied.customCss.join(", ")}` : ""
+      }.`,
+    )
+
+    if (unmatched.length > 0) {
+      this.logInfo(
+        `Mask selector(s) matching nothing: ${unmatched.map((mask) => `${mask.action} ${mask.selector}`).join("; ")}.`,
+      )
+    }
+  }
+
+  // Masks are for the screenshot only; the HTML, PDF, and archive record the page unaltered.
+  private async removeMasks() {
+    const restore = this.restoreMasks
+
+    if (!restore) {
+      return
+    }
+
+    this.restoreMasks = null
+
+    try {
+      await restore()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "unmask", message })
+      this.logWarn(
+        `Could not remove the masks; the HTML, PDF, and archive may contain them: ${message}.`,
+      )
+    }
+  }
+
+  private async captureScreenshot(page: Page) {
+    const screenshotPath = joinPath(this.config.linkDir, this.config.screenshotFileName)
+    this.logInfo("Capturing screenshot...")
+    const screenshotStart = Date.now()
+    const screenshot = await page.screenshot({
+      path: screenshotPath,
+      fullPage: true,
+      mask: this.screenshotMask,
+      maskColor: config.MASK_COLOR,
+    })
+    this.recordArtifact("screenshot", screenshotPath, screenshot.byteLength)
+    this.logInfo(`Screenshot saved to ${screenshotPath} (${this.formatDuration(screenshotStart)}).`)
+  }
+
+  private async writeHtmlSnapshot(page: Page) {
+    const htmlPath = joinPath(this.config.linkDir, this.config.htmlFileName)
+    const html = await page.content()
+    this.logInfo("Writing HTML snapshot to disk...")
+    const writeStart = Date.now()
+    const bytes = await Bun.write(htmlPath, html)
+    this.recordArtifact("html", htmlPath, bytes)
+    this.logInfo(
+      `Stored HTML snapshot (${html.length} characters) in ${this.formatDuration(writeStart)}.`,
+    )
+  }
+
+  // A PDF is an extra; when it cannot be rendered the variant keeps its screenshot and HTML.
+  private async writePdf(page: Page) {
+    const fileName = this.config.pdfFileName
+
+    if (!fileName) {
+      return
+    }
+
+    const pdfPath = joinPath(this.config.linkDir, fileName)
+    this.logInfo(`Rendering PDF (${config.PDF_FORMAT}, ${config.PDF_MEDIA} media)...`)
+    const pdfStart = Date.now()
+
+    try {
+      const renderer = new PdfRenderer({
+        format: config.PDF_FORMAT,
+        margin: { ...config.PDF_MARGIN },
+        printBackground: config.PDF_PRINT_BACKGROUND,
+        media: config.PDF_MEDIA,
+        headerFooterEnabled: config.PDF_HEADER_FOOTER_ENABLED,
+        headerTemplate: config.PDF_HEADER_TEMPLATE,
+        footerTemplate: config.PDF_FOOTER_TEMPLATE,
+      })
+      const bytes = await renderer.render(page, pdfPath, this.config.url, this.attemptStartedAt)
+      this.recordArtifact("pdf", pdfPath, bytes)
+      this.logInfo(`PDF saved to ${pdfPath} (${this.formatDuration(pdfStart)}).`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "pdf", message })
+      this.logWarn(`PDF rendering failed after ${this.formatDuration(pdfStart)}: ${message}.`)
+    }
+  }
+
+  // Like the PDF, an archive is an extra that must not cost the variant its screenshot and HTML.
+  private async writeArchive(page: Page) {
+    const format = config.ARCHIVE_FORMAT
+    const fileName = this.config.archiveFileName
+
+    if (format === "none" || !fileName) {
+      return
+    }
+
+    const archivePath = joinPath(this.config.linkDir, fileName)
+    this.logInfo(`Writing ${format} archive...`)
+    const archiveStart = Date.now()
+
+    try {
+      const archive = await new PageArchiver(format, config.ARCHIVE_RESOURCE_TIMEOUT_MS).archive(
+        page,
+      )
+      const bytes = await Bun.write(archivePath, archive.content)
+      this.recordArtifact(format === "mhtml" ? "mhtml" : "archive", archivePath, bytes)
+      this.logInfo(
+        `Stored ${format} archive in ${archivePath} (${this.formatDuration(archiveStart)}${
+          archive.failedResources > 0
+            ? `; ${archive.failedResources} resource(s) could not be inlined`
+            : ""
+        }).`,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "archive", message })
+      this.logWarn(
+        `Writing the ${format} archive failed after ${this.formatDuration(archiveStart)}: ${message}.`,
+      )
+    }
+  }
+
+  // Unthrottled metrics are misleading, but the capture itself is still valid, so this only warns.
+  private async applyThrottling(page: Page) {
+    const throttler = new PageThrottler(this.config.throttling)
+
+    if (!throttler.isActive) {
+      return
+    }
+
+    try {
+      await throttler.apply(page)
+      this.logInfo(`Throttling applied: ${throttler.describe()}.`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "throttling", message })
+      this.logWarn(`Could not apply throttling: ${message}.`)
+    }
+  }
+
+  private startPerformanceRecorder(page: Page): PerformanceRecorder | null {
+    if (!this.config.performanceFileName) {
+      return null
+    }
+
+    const recorder = new PerformanceRecorder()
+    recorder.start(page)
+    return recorder
+  }
+
+  // Collected once the content is ready, before interactions and scrolling add requests and shifts.
+  private async writePerformanceMetrics() {
+    const recorder = this.performanceRecorder
+    const fileName = this.config.performanceFileName
+
+    if (!recorder || !fileName) {
+      return
+    }
+
+    const performancePath = joinPath(this.config.linkDir, fileName)
+
+    try {
+      const metrics = await recorder.collect()
+      const bytes = await Bun.write(
+        performancePath,
+        `${JSON.stringify({ url: this.config.url, variant: this.config.variantName, engine: this.config.engine, throttling: this.config.throttling, metrics }, null, 2)}\n`,
+      )
+      this.recordArtifact("performance", performancePath, bytes)
+      this.performance = metrics
+      this.logInfo(
+        `Performance: ${describePerformance(metrics)}, ${metrics.requestCount} request(s), ${metrics.transferredBytes} byte(s).`,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "performance", message })
+      this.logWarn(`Could not record performance metrics: ${message}.`)
+    }
+  }
+
+  private startConsoleRecorder(page: Page): PageConsoleRecorder | null {
+    if (!this.config.consoleFileName) {
+      return null
+    }
+
+    // Requests blocked by route rules are counted under routing, not as failed requests.
+    const recorder = new PageConsoleRecorder(
+      (request) => this.requestRouter?.hasBlocked(request) ?? false,
+    )
+    recorder.start(page)
+    return recorder
+  }
+
+  private checkPageErrors() {
+    const pageErrors = this.consoleRecorder?.summarize().pageErrors ?? 0
+
+    if (pageErrors > 0 && config.FAIL_ON_PAGE_ERRORS) {
+      throw new Error(
+        `The page threw ${pageErrors} uncaught error(s); see ${this.config.consoleFileName}.`,
+      )
+    }
+  }
+
+  private async writeConsoleLog() {
+    const recorder = this.consoleRecorder
+    const fileName = this.config.consoleFileName
+
+    if (!recorder || !fileName) {
+      return
+    }
+
+    recorder.stop()
+    const summary = recorder.summarize()
+    const consolePath = joinPath(this.config.linkDir, fileName)
+    this.consoleSummary = summary
+
+    try {
+      const bytes = await Bun.write(
+        consolePath,
+        `${JSON.stringify({ url: this.config.url, variant: this.config.variantName, summary, entries: recorder.getEntries() }, null, 2)}\n`,
+      )
+      this.recordArtifact("console", consolePath, bytes)
+      this.logInfo(
+        `Page console: ${summary.messages} message(s), ${summary.pageErrors} uncaught error(s), ${summary.failedRequests} failed request(s), ${summary.httpErrors} HTTP error response(s).`,
+      )
+    } catch (error) {
+      this.logWarn(
+        `Could not write ${consolePath}: ${error instanceof Error ? error.message : String(error)}.`,
+      )
+    }
+  }
+
+  private startWarcRecorder(page: Page): WarcRecorder | null {
+    const fileName = this.config.warcFileName
+
+    if (!fileName) {
+      return null
+    }
+
+    const recorder = new WarcRecorder({
+      fileName,
+      url: this.config.url,
+      profileName: this.config.variantName,
+      outputFolder: this.config.linkDir,
+      contextOptions: this.config.contextOptions,
+    })
+    recorder.start(page)
+    return recorder
+  }
+
+  // The traffic recording is an extra as well; losing it only costs a warning.
+  private async writeWarc(recorder: WarcRecorder | null) {
+    const fileName = this.config.warcFileName
+
+    if (!recorder || !fileName) {
+      return
+    }
+
+    const warcPath = joinPath(this.config.linkDir, fileName)
+    const writeStart = Date.now()
+
+    try {
+      const warc = await recorder.finish()
+      const bytes = await Bun.write(warcPath, warc.content)
+      this.recordArtifact("warc", warcPath, bytes)
+      this.logInfo(
+        `Stored WARC with ${warc.records} record(s) in ${warcPath} (${this.formatDuration(writeStart)}).`,
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      this.warnings.push({ phase: "warc", message })
+      this.logWarn(`Writing the WARC failed after ${this.formatDuration(writeStart)}: ${message}.`)
+    }
+  }
+
+  private async discoverLinks(page: Page) {
+    const onLinksDiscovered = this.config.onLinksDiscovered
+
+    if (!onLinksDiscovered) {
+      return
+    }
+
+    try {
+      const hrefs = await page.evaluate(() => {
+        const doc = (globalThis as { document?: DocumentLike }).document
+        const anchors = doc?.querySelectorAll?.("a[href]") ?? []
+        return Array.from(anchors, (anchor) => anchor.href).filter(
+          (href): href is string => typeof href === "string" && href.length > 0,
+        )
+      })
+      this.logInfo(`Collected ${hrefs.length} link(s) for crawling.`)
+      onLinksDiscovered(hrefs, page.url())
+    } catch (error) {
+      // Crawling is best effort; a failed link scan must not fail the capture itself.
+      this.logWarn(
+        `Link discovery failed: ${error instanceof Error ? error.message : String(error)}.`,
+      )
+    }
+  }
+
+  private async measurePhase<T>(phase: string, action: () => Promise<T>): Promise<T> {
+    this.currentPhase = phase
+    const phaseStart = Date.now()
+
+    try {
+      return await action()
+    } finally {
+      this.timings[phase] = Date.now() - phaseStart
+    }
+  }
+
+  private recordArtifact(kind: string, path: string, bytes: number) {
+    this.artifacts.push({ kind, path, bytes })
+  }
+
+  private buildOutcomeInit(): VariantOutcomeInit {
+    return {
+      variant: this.config.variantName,
+      label: this.config.variantLabel,
+      engine: this.config.engine,
+      httpStatus: this.httpStatus,
+      navigationStrategy: this.navigationStrategy,
+      timings: this.timings,
+      artifacts: this.artifacts,
+      attempts: this.attempts,
+      warnings: this.warnings,
+      masking: this.masking,
+      console: this.consoleSummary,
+      routing: this.requestRouter?.getCounts() ?? [],
+      accessibility: this.accessibility,
+      performance: this.performance,
+    }
+  }
+
+  private async waitForTargetSelector(page: Page) {
+    const selector = this.config.waitForSelector
+
+    if (!selector) {
+      return
+    }
+
+    const waitStart = Date.now()
+    this.logInfo(
+      `Waiting for selector "${selector}" (timeout: ${config.CONTENT_READY_TIMEOUT_MS}ms)...`,
+    )
+
+    try {
+      await page.waitForSelector(selector, {
+        state: "visible",
+        timeout: config.CONTENT_READY_TIMEOUT_MS,
+      })
+      this.logInfo(`Selector "${selector}" is visible (${this.formatDuration(waitStart)}).`)
+    } catch {
+      this.logWarn(
+        `Selector "${selector}" not visible within ${config.CONTENT_READY_TIMEOUT_MS}ms.`,
+      )
+      throw new Error(
+        `Selector "${selector}" did not become visible for ${this.config.url} within ${config.CONTENT_READY_TIMEOUT_MS}ms.`,
+      )
+    }
+  }
+
   private validateNavigationResponse(response: Response | null, duration: string) {
     if (!response) {
       this.logInfo(`Navigation completed without HTTP response (${duration}).`)
@@ -238,6 +995,7 @@ export class VariantCaptureTask {
     }
 
     const status = response.status()
+    this.httpStatus = status
 
     if (status >= 400) {
       const statusText = response.statusText()
@@ -0,0 +1,110 @@
+import type { AccessibilitySummary } from "./accessibilityAuditor"
+import type { BrowserEngine } from "./browserEngine"
+import type { FailureCategory } from "./failureCategory"
+import type { PageConsoleSummary } from "./pageConsoleRecorder"
+import type { PerformanceMetrics } from "./performanceRecorder"
+import type { RouteRuleCount } from "./requestRouter"
+import type { AppliedMask } from "./screenshotMasks"
+
+export interface VariantArtifact {
+  kind: string
+  path: string
+  bytes: number
+}
+
+export interface VariantFailure {
+  phase: string
+  category: FailureCategory
+  message: string
+}
+
+/** A problem with an optional artifact that did not fail the variant. */
+export interface VariantWarning {
+  phase: string
+  message: string
+}
+
+/** What was hidden, masked, or removed before the screenshot, for reviewers of the output. */
+export interface VariantMasking {
+  masks: ReadonlyArray<AppliedMask>
+  customCss: ReadonlyArray<string>
+}
+
+export interface VariantAttempt {
+  attempt: number
+  startedAt: string
+  durationMs: number
+  httpStatus: number | null
+  navigationStrategy: string | null
+  failure: VariantFailure | null
+}
+
+export interface VariantOutcomeInit {
+  variant: string
+  label: string
+  /** Null for variants carried over from manifests written before engines were recorded. */
+  engine: BrowserEngine | null
+  httpStatus: number | null
+  navigationStrategy: string | null
+  timings: Readonly<Record<string, number>>
+  artifacts: ReadonlyArray<VariantArtifact>
+  attempts: ReadonlyArray<VariantAttempt>
+  warnings: ReadonlyArray<VariantWarning>
+  masking: VariantMasking | null
+  console: PageConsoleSummary | null
+  routing: ReadonlyArray<RouteRuleCount>
+  accessibility: AccessibilitySummary | null
+  performance: PerformanceMetrics | null
+}
+
+export class VariantOutcome {
+  public readonly variant: string
+  public readonly label: string
+  public readonly engine: BrowserEngine | null
+  public readonly httpStatus: number | null
+  public readonly navigationStrategy: string | null
+  public readonly timings: Readonly<Record<string, number>>
+  public readonly artifacts: ReadonlyArray<VariantArtifact>
+  public readonly attempts: ReadonlyArray<VariantAttempt>
+  public readonly warnings: ReadonlyArray<VariantWarning>
+  public readonly masking: VariantMasking | null
+  public readonly console: PageConsoleSummary | null
+  public readonly routing: ReadonlyArray<RouteRuleCount>
+  public readonly accessibility: AccessibilitySummary | null
+  public readonly performance: PerformanceMetrics | null
+
+  private constructor(
+    init: VariantOutcomeInit,
+    public readonly success: boolean,
+    public readonly failure?: VariantFailure,
+    public readonly reused = false,
+  ) {
+    this.variant = init.variant
+    this.label = init.label
+    this.engine = init.engine
+    this.httpStatus = init.httpStatus
+    this.navigationStrategy = init.navigationStrategy
+    this.timings = Object.freeze({ ...init.timings })
+    this.artifacts = Object.freeze([...init.artifacts])
+    this.attempts = Object.freeze([...init.attempts])
+    this.warnings = Object.freeze([...init.warnings])
+    this.masking = init.masking
+    this.console = init.console
+    this.routing = Object.freeze([...init.routing])
+    this.accessibility = init.accessibility
+    this.performance = init.performance
+  }
+
+  static ok(init: VariantOutcomeInit) {
+    return new VariantOutcome(init, true)
+  }
+
+  /** A successful outcome carried over from an earlier run instead of being captured again. */
+  static reused(init: VariantOutcomeInit) {
+    return new VariantOutcome(init, true, undefined, true)
+  }
+
+  static fail(init: VariantOutcomeInit, failure: VariantFailure) {
+    return new VariantOutcome(init, false, failure)
+  }
+}
@@ -0,0 +1,197 @@
+import type { BrowserContextOptions, Page, Request } from "playwright"
+import { SecretRedactor } from "./secretRedactor"
+
+export interface WarcRecorderOptions {
+  fileName: string
+  url: string
+  profileName: string
+  outputFolder: string
+  contextOptions: BrowserContextOptions
+}
+
+interface WarcRecord {
+  type: "warcinfo" | "request" | "response"
+  headers: Array<[string, string]>
+  block: Uint8Array
+}
+
+/**
+ * Records the HTTP traffic of a page as WARC 1.1 records. Every record is gzipped on its own
+ * and the members are concatenated, which is what `.warc.gz` readers expect.
+ */
+export class WarcRecorder {
+  private static readonly CRLF = "\r\n"
+  // Playwright hands out decoded bodies, so framing headers of the original message no longer apply.
+  private static readonly DROPPED_RESPONSE_HEADERS = new Set([
+    "content-encoding",
+    "transfer-encoding",
+    "content-length",
+  ])
+
+  private readonly pending: Array<Promise<WarcRecord[]>> = []
+  private readonly encoder = new TextEncoder()
+  private readonly onRequestFinished = (request: Request) => {
+    this.pending.push(this.recordExchange(request))
+  }
+  private page: Page | null = null
+
+  constructor(private readonly options: WarcRecorderOptions) {}
+
+  start(page: Page): void {
+    this.page = page
+    page.on("requestfinished", this.onRequestFinished)
+  }
+
+  /** Stops recording and returns the gzipped WARC file together with its record count. */
+  async finish(): Promise<{ content: Uint8Array; records: number }> {
+    const page = this.page
+    page?.off("requestfinished", this.onRequestFinished)
+    const exchanges = await Promise.all(this.pending.splice(0))
+    const records = [this.buildWarcInfo(page), ...exchanges.flat()]
+    const members = records.map((record) => Bun.gzipSync(this.serialize(record)))
+    return { content: WarcRecorder.concat(...members), records: records.length }
+  }
+
+  private async recordExchange(request: Request): Promise<WarcRecord[]> {
+    const url = request.url()
+
+    if (!/^https?:/i.test(url)) {
+      return []
+    }
+
+    try {
+      const response = await request.response()
+
+      if (!response) {
+        return []
+      }
+
+      const date = new Date().toISOString()
+      const responseId = WarcRecorder.createRecordId()
+      // HTTP/2 pseudo-headers such as ":authority" have no place in an HTTP/1.1 message.
+      const requestHeaders = (await request.headersArray()).filter(WarcRecorder.isRegularHeader)
+      const responseHeaders = (await response.headersArray()).filter(WarcRecorder.isRegularHeader)
+      // Redirects and some aborted responses have no body to read.
+      const body = await response.body().catch(() => Buffer.alloc(0))
+      const target = new URL(url)
+      // Injected auth headers and session cookies are masked; bodies are archived as served.
+      const redactor = SecretRedactor.getInstance()
+      const requestHead = [
+        `${request.method()} ${target.pathname}${target.search} HTTP/1.1`,
+        ...(requestHeaders.some((header) => header.name.toLowerCase() === "host")
+          ? []
+          : [`Host: ${target.host}`]),
+        ...requestHeaders.map(
+          (header) => `${header.name}: ${redactor.redactHeader(header.name, header.value)}`,
+        ),
+      ]
+      const responseHead = [
+        `HTTP/1.1 ${response.status()} ${response.statusText()}`.trimEnd(),
+        ...responseHeaders
+          .filter((header) => !WarcRecorder.DROPPED_RESPONSE_HEADERS.has(header.name.toLowerCase()))
+          .map((header) => `${header.name}: ${redactor.redactHeader(header.name, header.value)}`),
+        `Content-Length: ${body.length}`,
+      ]
+
+      return [
+        {
+          type: "response",
+          headers: [
+            ["WARC-Record-ID", responseId],
+            ["WARC-Target-URI", url],
+            ["WARC-Date", date],
+            ["Content-Type", "application/http;msgtype=response"],
+          ],
+          block: this.buildHttpBlock(responseHead, body),
+        },
+        {
+          type: "request",
+          headers: [
+            ["WARC-Record-ID", WarcRecorder.createRecordId()],
+            ["WARC-Target-URI", url],
+            ["WARC-Date", date],
+            ["WARC-Concurrent-To", responseId],
+            ["Content-Type", "application/http;msgtype=request"],
+          ],
+          block: this.buildHttpBlock(requestHead, request.postDataBuffer() ?? Buffer.alloc(0)),
+        },
+      ]
+    } catch (error) {
+      console.warn(
+        `[WARC] Skipping ${url}: ${error instanceof Error ? error.message : String(error)}.`,
+      )
+      return []
+    }
+  }
+
+  private buildWarcInfo(page: Page | null): WarcRecord {
+    const browser = page?.context().browser()
+    const fields = [
+      ["software", "catchapage"],
+      ["format", "WARC File Format 1.1"],
+      [
+        "conformsTo",
+        "https://iipc.github.io/warc-specifications/specifications/warc-format/warc-1.1/",
+      ],
+      ["browser", browser ? `${browser.browserType().name()} ${browser.version()}` : "unknown"],
+      ["catchapage-url", this.options.url],
+      ["catchapage-profile", this.options.profileName],
+      ["catchapage-output", this.options.outputFolder],
+      ["catchapage-context-options", JSON.stringify(this.options.contextOptions)],
+    ]
+    const block = fields.map(([name, value]) => `${name}: ${value}${WarcRecorder.CRLF}`).join("")
+
+    return {
+      type: "warcinfo",
+      headers: [
+        ["WARC-Record-ID", WarcRecorder.createRecordId()],
+        ["WARC-Date", new Date().toISOString()],
+        ["WARC-Filename", this.options.fileName],
+        ["Content-Type", "application/warc-fields"],
+      ],
+      block: this.encoder.encode(block),
+    }
+  }
+
+  private buildHttpBlock(head: string[], body: Uint8Array): Uint8Array {
+    const headBytes = this.encoder.encode(
+      `${head.join(WarcRecorder.CRLF)}${WarcRecorder.CRLF}${WarcRecorder.CRLF}`,
+    )
+    return WarcRecorder.concat(headBytes, body)
+  }
+
+  private serialize(record: WarcRecord): Uint8Array<ArrayBuffer> {
+    const header = [
+      "WARC/1.1",
+      `WARC-Type: ${record.type}`,
+      ...record.headers.map(([name, value]) => `${name}: ${value}`),
+      `Content-Length: ${record.block.length}`,
+    ].join(WarcRecorder.CRLF)
+
+    return WarcRecorder.concat(
+      this.encoder.encode(`${header}${WarcRecorder.CRLF}${WarcRecorder.CRLF}`),
+      record.block,
+      this.encoder.encode(`${WarcRecorder.CRLF}${WarcRecorder.CRLF}`),
+    )
+  }
+
+  private static concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+    let offset = 0
+
+    for (const part of parts) {
+      result.set(part, offset)
+      offset += part.length
+    }
+
+    return result
+  }
+
+  private static isRegularHeader(header: { name: string }): boolean {
+    return !header.name.startsWith(":")
+  }
+
+  private static createRecordId(): string {
+    return `<urn:uuid:${crypto.randomUUID()}>`
+  }
+}